@@ -0,0 +1,19 @@
+-- =============================================
+-- TASK COMMENTS
+-- =============================================
+-- Threaded discussion on tasks. A comment with a parent_comment_id is a reply;
+-- replies are removed together with the comment they answer.
+
+CREATE TABLE IF NOT EXISTS task_comments (
+  comment_id BIGSERIAL PRIMARY KEY,
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  parent_comment_id BIGINT REFERENCES task_comments(comment_id) ON DELETE CASCADE,
+  author_id BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  body TEXT NOT NULL,
+  edited_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task_id ON task_comments(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_comments_parent ON task_comments(parent_comment_id);
@@ -0,0 +1,24 @@
+-- =============================================
+-- SUBTASKS AND CHECKLISTS
+-- =============================================
+-- A task can be broken down into child tasks (full task rows pointing at their
+-- parent) or into lightweight checklist items that only have a label and a
+-- done flag. Subtasks are one level deep and live in the parent's project.
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS parent_task_id BIGINT REFERENCES tasks(task_id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks(parent_task_id);
+
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+  item_id BIGSERIAL PRIMARY KEY,
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task_id ON task_checklist_items(task_id);
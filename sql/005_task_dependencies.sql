@@ -0,0 +1,16 @@
+-- =============================================
+-- TASK DEPENDENCIES
+-- =============================================
+-- "task_id is blocked by blocked_by_task_id". Read the other way round,
+-- blocked_by_task_id blocks task_id. Cycles are rejected by the API.
+
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  blocked_by_task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (task_id, blocked_by_task_id),
+  CHECK (task_id <> blocked_by_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_blocked_by ON task_dependencies(blocked_by_task_id);
@@ -0,0 +1,49 @@
+-- =============================================
+-- TASK WORKFLOW STATUSES
+-- =============================================
+-- Tasks used to share the project_status enum ('On track', 'Off track',
+-- 'At risk', 'Completed'), which describes project health rather than task
+-- progress. Tasks now carry a free-form status name plus a category.
+--
+-- Projects without rows in project_task_statuses use the default workflow:
+--   To do (not_started) -> In progress (active) -> In review (active) -> Done (done)
+
+CREATE TABLE IF NOT EXISTS project_task_statuses (
+  status_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('not_started', 'active', 'done')),
+  color VARCHAR(20),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_uuid, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_task_statuses_project ON project_task_statuses(project_uuid);
+
+-- Detach tasks.status from the project_status enum
+ALTER TABLE tasks ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE tasks ALTER COLUMN status TYPE TEXT USING status::text;
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS status_category TEXT NOT NULL DEFAULT 'not_started'
+  CHECK (status_category IN ('not_started', 'active', 'done'));
+
+-- Migrate existing rows onto the default workflow
+UPDATE tasks
+SET
+  status = CASE status
+    WHEN 'Completed' THEN 'Done'
+    WHEN 'On track' THEN 'To do'
+    ELSE 'In progress'
+  END,
+  status_category = CASE status
+    WHEN 'Completed' THEN 'done'
+    WHEN 'On track' THEN 'not_started'
+    ELSE 'active'
+  END
+WHERE status IN ('On track', 'Off track', 'At risk', 'Completed');
+
+ALTER TABLE tasks ALTER COLUMN status SET DEFAULT 'To do';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_status_category ON tasks(status_category);
@@ -0,0 +1,23 @@
+-- =============================================
+-- KANBAN BOARD ORDERING
+-- =============================================
+-- board_rank orders cards inside a status column (ascending). New cards go to
+-- the bottom; a moved card takes the midpoint between its new neighbours, and
+-- a column is renumbered when two neighbours get too close.
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS board_rank DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- Backfill: keep the previous order (newest first) within each column
+WITH ranked AS (
+  SELECT
+    task_id,
+    ROW_NUMBER() OVER (PARTITION BY project_uuid, status ORDER BY task_id DESC) AS rn
+  FROM tasks
+)
+UPDATE tasks
+SET board_rank = ranked.rn * 1024
+FROM ranked
+WHERE tasks.task_id = ranked.task_id;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_board ON tasks(project_uuid, status, board_rank);
@@ -0,0 +1,23 @@
+-- =============================================
+-- LABELS
+-- =============================================
+-- Labels are defined per project and attached to that project's tasks.
+
+CREATE TABLE IF NOT EXISTS project_labels (
+  label_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  name VARCHAR(50) NOT NULL,
+  color VARCHAR(7) NOT NULL DEFAULT '#6b7280',
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_uuid, name)
+);
+
+CREATE TABLE IF NOT EXISTS task_labels (
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  label_id BIGINT NOT NULL REFERENCES project_labels(label_id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (task_id, label_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_labels_label_id ON task_labels(label_id);
@@ -0,0 +1,15 @@
+-- =============================================
+-- RECURRING TASKS
+-- =============================================
+-- recurrence holds the rule as JSON, e.g.
+--   { "frequency": "daily", "interval": 1 }
+--   { "frequency": "weekly", "interval": 1, "weekdays": [1, 3] }   -- 0 = Sunday
+--   { "frequency": "monthly", "interval": 1, "day_of_month": 15 }
+--   { "frequency": "after_completion", "interval": 10 }             -- days after completion
+-- When a recurring task is completed the API creates the next occurrence and
+-- records it in next_occurrence_id, so re-completing never creates duplicates.
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS recurrence JSONB,
+  ADD COLUMN IF NOT EXISTS recurrence_source_id BIGINT REFERENCES tasks(task_id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS next_occurrence_id BIGINT REFERENCES tasks(task_id) ON DELETE SET NULL;
@@ -0,0 +1,24 @@
+-- =============================================
+-- TIME TRACKING
+-- =============================================
+-- A time entry is either a running timer (ended_at and duration_seconds are
+-- NULL until it is stopped) or a manual log with a known duration.
+-- Each user can have at most one running timer.
+
+CREATE TABLE IF NOT EXISTS time_entries (
+  entry_id BIGSERIAL PRIMARY KEY,
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  source TEXT NOT NULL DEFAULT 'timer' CHECK (source IN ('timer', 'manual')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ,
+  duration_seconds INTEGER CHECK (duration_seconds IS NULL OR duration_seconds >= 0),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_task_id ON time_entries(task_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_user_started ON time_entries(user_id, started_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running_timer
+  ON time_entries(user_id) WHERE ended_at IS NULL;
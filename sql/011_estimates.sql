@@ -0,0 +1,12 @@
+-- =============================================
+-- ESTIMATES
+-- =============================================
+-- Each project chooses whether task estimates are in hours or story points.
+-- tasks.estimate is read in the unit of its project.
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS estimation_unit TEXT NOT NULL DEFAULT 'hours'
+  CHECK (estimation_unit IN ('hours', 'points'));
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS estimate NUMERIC(8, 2) CHECK (estimate IS NULL OR estimate >= 0);
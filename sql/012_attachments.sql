@@ -0,0 +1,22 @@
+-- =============================================
+-- ATTACHMENTS
+-- =============================================
+-- File metadata only; the bytes live in the configured storage backend
+-- (local disk, Supabase Storage or S3-compatible) under storage_key.
+-- Attachments with a task_id belong to that task, the others to the project.
+
+CREATE TABLE IF NOT EXISTS attachments (
+  attachment_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  task_id BIGINT REFERENCES tasks(task_id) ON DELETE CASCADE,
+  file_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(255) NOT NULL,
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  storage_driver TEXT NOT NULL CHECK (storage_driver IN ('local', 'supabase', 's3')),
+  storage_key TEXT NOT NULL,
+  uploaded_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attachments_project ON attachments(project_uuid);
+CREATE INDEX IF NOT EXISTS idx_attachments_task ON attachments(task_id);
@@ -0,0 +1,135 @@
+-- =============================================
+-- FULL-TEXT SEARCH
+-- =============================================
+-- Weighted search vectors (titles/names rank above descriptions) kept up to
+-- date as generated columns, plus search_workspace() which the API calls
+-- through supabase.rpc(). Access control happens in the API: it passes the
+-- project UUIDs the caller belongs to and only those are searched.
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE task_comments
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(body, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_task_comments_search ON task_comments USING GIN (search_vector);
+
+-- Ranked matches across tasks, projects, comments and member names.
+-- Content uses websearch syntax ("quoted phrases", -excluded, or); member
+-- names match word prefixes so "ali" finds "Alice". Highlights are wrapped
+-- in <mark></mark>; the surrounding text is not HTML-escaped.
+CREATE OR REPLACE FUNCTION search_workspace(
+  search_query TEXT,
+  project_uuids UUID[],
+  result_types TEXT[] DEFAULT ARRAY['task', 'project', 'comment', 'member'],
+  result_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  result_type TEXT,
+  result_id TEXT,
+  project_uuid UUID,
+  task_id BIGINT,
+  title TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS text_query,
+      (
+        SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+        FROM regexp_split_to_table(lower(trim(search_query)), '\s+') AS word
+        WHERE word <> ''
+      ) AS name_query
+  ),
+  matches AS (
+    SELECT
+      'task' AS result_type,
+      t.task_id::TEXT AS result_id,
+      t.project_uuid,
+      t.task_id,
+      ts_headline('english', t.title, q.text_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title,
+      CASE WHEN coalesce(t.description, '') <> '' THEN
+        ts_headline('english', t.description, q.text_query,
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … "')
+      END AS snippet,
+      ts_rank_cd(t.search_vector, q.text_query) AS rank
+    FROM tasks t, q
+    WHERE 'task' = ANY(result_types)
+      AND t.project_uuid = ANY(project_uuids)
+      AND t.search_vector @@ q.text_query
+
+    UNION ALL
+
+    SELECT
+      'project',
+      p.project_uuid::TEXT,
+      p.project_uuid,
+      NULL,
+      ts_headline('english', p.name, q.text_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      CASE WHEN coalesce(p.description, '') <> '' THEN
+        ts_headline('english', p.description, q.text_query,
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … "')
+      END,
+      ts_rank_cd(p.search_vector, q.text_query)
+    FROM projects p, q
+    WHERE 'project' = ANY(result_types)
+      AND p.project_uuid = ANY(project_uuids)
+      AND p.search_vector @@ q.text_query
+
+    UNION ALL
+
+    SELECT
+      'comment',
+      c.comment_id::TEXT,
+      t.project_uuid,
+      t.task_id,
+      t.title,
+      ts_headline('english', c.body, q.text_query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … "'),
+      ts_rank_cd(c.search_vector, q.text_query)
+    FROM task_comments c
+    JOIN tasks t ON t.task_id = c.task_id, q
+    WHERE 'comment' = ANY(result_types)
+      AND t.project_uuid = ANY(project_uuids)
+      AND c.search_vector @@ q.text_query
+
+    UNION ALL
+
+    SELECT
+      'member',
+      u.user_id::TEXT,
+      NULL,
+      NULL,
+      ts_headline('simple', u.name, q.name_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      u.email,
+      ts_rank(to_tsvector('simple', u.name), q.name_query)
+    FROM users u, q
+    WHERE 'member' = ANY(result_types)
+      AND q.name_query IS NOT NULL
+      AND u.user_id IN (
+        SELECT pm.user_id FROM project_members pm WHERE pm.project_uuid = ANY(project_uuids)
+        UNION
+        SELECT pr.owner_id FROM projects pr WHERE pr.project_uuid = ANY(project_uuids)
+      )
+      AND to_tsvector('simple', u.name) @@ q.name_query
+  )
+  SELECT * FROM matches
+  ORDER BY rank DESC, result_type, result_id
+  LIMIT result_limit;
+$$;
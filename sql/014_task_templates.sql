@@ -0,0 +1,21 @@
+-- =============================================
+-- TASK TEMPLATES
+-- =============================================
+-- Reusable task blueprints per project. Text fields may contain placeholders
+-- such as {{date}} or {{project}} that are filled when a task is created from
+-- the template. The checklist is stored as an ordered array of item texts.
+
+CREATE TABLE IF NOT EXISTS task_templates (
+  template_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  title VARCHAR(200) NOT NULL,
+  description TEXT,
+  priority TEXT,
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb,
+  default_assignee_ids BIGINT[] NOT NULL DEFAULT '{}',
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_uuid, name)
+);
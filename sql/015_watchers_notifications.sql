@@ -0,0 +1,37 @@
+-- =============================================
+-- TASK WATCHERS AND NOTIFICATIONS
+-- =============================================
+-- Watchers follow a task without being assigned to it. Creators and assignees
+-- are added automatically. Watchers get an in-app notification (and an email)
+-- when the task's status or due date changes or someone comments on it.
+
+CREATE TABLE IF NOT EXISTS task_watchers (
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  user_id BIGINT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (task_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_watchers_user_id ON task_watchers(user_id);
+
+-- Backfill: everyone who created or is assigned to a task watches it
+INSERT INTO task_watchers (task_id, user_id)
+SELECT task_id, created_by FROM tasks WHERE created_by IS NOT NULL
+UNION
+SELECT task_id, user_id FROM task_assignments
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS notifications (
+  notification_id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  actor_id BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  type TEXT NOT NULL,
+  task_id BIGINT REFERENCES tasks(task_id) ON DELETE CASCADE,
+  project_uuid UUID REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
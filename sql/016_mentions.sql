@@ -0,0 +1,19 @@
+-- =============================================
+-- MENTIONS
+-- =============================================
+-- @mentions found in a task description (comment_id IS NULL) or a comment.
+-- Only members of the task's project can be mentioned. Rows are kept in sync
+-- when the text is edited so each user is notified once per text.
+
+CREATE TABLE IF NOT EXISTS task_mentions (
+  mention_id BIGSERIAL PRIMARY KEY,
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  comment_id BIGINT REFERENCES task_comments(comment_id) ON DELETE CASCADE,
+  mentioned_user_id BIGINT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  mentioned_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_mentions_unique
+  ON task_mentions(task_id, COALESCE(comment_id, 0), mentioned_user_id);
+CREATE INDEX IF NOT EXISTS idx_task_mentions_user ON task_mentions(mentioned_user_id);
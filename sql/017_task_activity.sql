@@ -0,0 +1,17 @@
+-- =============================================
+-- TASK ACTIVITY
+-- =============================================
+-- Append-only history of field changes on a task. Values are stored as JSON
+-- so one table covers text, dates and lists (assignees are user ID arrays).
+
+CREATE TABLE IF NOT EXISTS task_activity (
+  activity_id BIGSERIAL PRIMARY KEY,
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  actor_id BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  field TEXT NOT NULL,
+  old_value JSONB,
+  new_value JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_activity_task_created ON task_activity(task_id, created_at DESC);
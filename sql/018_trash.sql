@@ -0,0 +1,131 @@
+-- =============================================
+-- TRASH
+-- =============================================
+-- Deleting a project or task only stamps deleted_at/deleted_by; the row stays
+-- in the trash until it is restored or purged by the cleanup job once the
+-- retention window (TRASH_RETENTION_DAYS) has passed. Deleting a project also
+-- trashes its tasks, and deleting a task its subtasks, with the same
+-- deleted_at so they are restored together.
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL;
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS deleted_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_projects_deleted_at ON projects(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_deleted_at ON tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- search_workspace() from 013, now skipping anything in the trash.
+-- Content uses websearch syntax ("quoted phrases", -excluded, or); member
+-- names match word prefixes so "ali" finds "Alice". Highlights are wrapped
+-- in <mark></mark>; the surrounding text is not HTML-escaped.
+CREATE OR REPLACE FUNCTION search_workspace(
+  search_query TEXT,
+  project_uuids UUID[],
+  result_types TEXT[] DEFAULT ARRAY['task', 'project', 'comment', 'member'],
+  result_limit INT DEFAULT 20
+)
+RETURNS TABLE (
+  result_type TEXT,
+  result_id TEXT,
+  project_uuid UUID,
+  task_id BIGINT,
+  title TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE sql STABLE
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS text_query,
+      (
+        SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+        FROM regexp_split_to_table(lower(trim(search_query)), '\s+') AS word
+        WHERE word <> ''
+      ) AS name_query
+  ),
+  matches AS (
+    SELECT
+      'task' AS result_type,
+      t.task_id::TEXT AS result_id,
+      t.project_uuid,
+      t.task_id,
+      ts_headline('english', t.title, q.text_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS title,
+      CASE WHEN coalesce(t.description, '') <> '' THEN
+        ts_headline('english', t.description, q.text_query,
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … "')
+      END AS snippet,
+      ts_rank_cd(t.search_vector, q.text_query) AS rank
+    FROM tasks t, q
+    WHERE 'task' = ANY(result_types)
+      AND t.project_uuid = ANY(project_uuids)
+      AND t.deleted_at IS NULL
+      AND t.search_vector @@ q.text_query
+
+    UNION ALL
+
+    SELECT
+      'project',
+      p.project_uuid::TEXT,
+      p.project_uuid,
+      NULL,
+      ts_headline('english', p.name, q.text_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      CASE WHEN coalesce(p.description, '') <> '' THEN
+        ts_headline('english', p.description, q.text_query,
+          'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … "')
+      END,
+      ts_rank_cd(p.search_vector, q.text_query)
+    FROM projects p, q
+    WHERE 'project' = ANY(result_types)
+      AND p.project_uuid = ANY(project_uuids)
+      AND p.deleted_at IS NULL
+      AND p.search_vector @@ q.text_query
+
+    UNION ALL
+
+    SELECT
+      'comment',
+      c.comment_id::TEXT,
+      t.project_uuid,
+      t.task_id,
+      t.title,
+      ts_headline('english', c.body, q.text_query,
+        'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … "'),
+      ts_rank_cd(c.search_vector, q.text_query)
+    FROM task_comments c
+    JOIN tasks t ON t.task_id = c.task_id, q
+    WHERE 'comment' = ANY(result_types)
+      AND t.project_uuid = ANY(project_uuids)
+      AND t.deleted_at IS NULL
+      AND c.search_vector @@ q.text_query
+
+    UNION ALL
+
+    SELECT
+      'member',
+      u.user_id::TEXT,
+      NULL,
+      NULL,
+      ts_headline('simple', u.name, q.name_query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      u.email,
+      ts_rank(to_tsvector('simple', u.name), q.name_query)
+    FROM users u, q
+    WHERE 'member' = ANY(result_types)
+      AND q.name_query IS NOT NULL
+      AND u.user_id IN (
+        SELECT pm.user_id FROM project_members pm
+        JOIN projects pp ON pp.project_uuid = pm.project_uuid
+        WHERE pm.project_uuid = ANY(project_uuids) AND pp.deleted_at IS NULL
+        UNION
+        SELECT pr.owner_id FROM projects pr WHERE pr.project_uuid = ANY(project_uuids) AND pr.deleted_at IS NULL
+      )
+      AND to_tsvector('simple', u.name) @@ q.name_query
+  )
+  SELECT * FROM matches
+  ORDER BY rank DESC, result_type, result_id
+  LIMIT result_limit;
+$$;
@@ -0,0 +1,25 @@
+-- =============================================
+-- TASK SCHEDULE AND TIME ZONES
+-- =============================================
+-- Tasks are either all-day (start_date/due_date only) or timed (start_at/due_at
+-- instants, entered in time_zone). Timed tasks keep the local dates of their
+-- instants in start_date/due_date so date filters and sorting cover both.
+-- Users can store the time zone dates are shown in (e.g. for "overdue").
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS start_date DATE,
+  ADD COLUMN IF NOT EXISTS start_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS is_all_day BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS time_zone TEXT NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_schedule_check;
+ALTER TABLE tasks ADD CONSTRAINT tasks_schedule_check CHECK (
+  (is_all_day AND start_at IS NULL AND due_at IS NULL)
+  OR (NOT is_all_day AND (start_at IS NOT NULL OR due_at IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_tasks_start_date ON tasks(start_date);
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS time_zone TEXT;
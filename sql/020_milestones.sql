@@ -0,0 +1,24 @@
+-- =============================================
+-- MILESTONES
+-- =============================================
+-- Intermediate deliverables of a project. Tasks can be attached to one
+-- milestone of their own project; completion and at-risk status are computed
+-- from those tasks by the API rather than stored.
+
+CREATE TABLE IF NOT EXISTS project_milestones (
+  milestone_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  target_date DATE NOT NULL,
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_milestones_project_date ON project_milestones(project_uuid, target_date);
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS milestone_id BIGINT REFERENCES project_milestones(milestone_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_milestone_id ON tasks(milestone_id);
@@ -0,0 +1,41 @@
+-- =============================================
+-- SPRINTS
+-- =============================================
+-- Time-boxed iterations per project. Tasks are committed to a sprint through
+-- sprint_tasks; a task that isn't finished when its sprint closes can be
+-- carried over into the next one, so it may appear in several sprints over
+-- time. A project has at most one active sprint. The summary written on close
+-- keeps the committed vs completed figures as they were at that moment.
+
+CREATE TABLE IF NOT EXISTS project_sprints (
+  sprint_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  goal TEXT,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'active', 'closed')),
+  started_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  summary JSONB,
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_sprints_project_start ON project_sprints(project_uuid, start_date);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_project_sprints_one_active
+  ON project_sprints(project_uuid) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS sprint_tasks (
+  sprint_id BIGINT NOT NULL REFERENCES project_sprints(sprint_id) ON DELETE CASCADE,
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  added_after_start BOOLEAN NOT NULL DEFAULT FALSE,  -- scope added while the sprint was running
+  carried_over_from BIGINT REFERENCES project_sprints(sprint_id) ON DELETE SET NULL,
+  PRIMARY KEY (sprint_id, task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sprint_tasks_task_id ON sprint_tasks(task_id);
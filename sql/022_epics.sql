@@ -0,0 +1,26 @@
+-- =============================================
+-- EPICS
+-- =============================================
+-- Initiatives that group tasks from several projects. An epic isn't tied to
+-- a project: it is visible to its owner and creator and to members of any
+-- project that has tasks in it. Progress is rolled up from the tasks by the
+-- API; the status is set by hand.
+
+CREATE TABLE IF NOT EXISTS epics (
+  epic_id BIGSERIAL PRIMARY KEY,
+  title VARCHAR(200) NOT NULL,
+  description TEXT,
+  owner_id BIGINT NOT NULL REFERENCES users(user_id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'in_progress', 'done', 'cancelled')),
+  target_date DATE,
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_epics_owner_id ON epics(owner_id);
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS epic_id BIGINT REFERENCES epics(epic_id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_epic_id ON tasks(epic_id);
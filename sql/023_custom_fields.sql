@@ -0,0 +1,38 @@
+-- =============================================
+-- CUSTOM FIELDS
+-- =============================================
+-- Extra task attributes defined per project by its owner or admins.
+-- Values are stored as JSON in the shape of their type:
+--   text, url, date ("YYYY-MM-DD"), single_select -> string
+--   number, user (user_id) -> number
+--   multi_select -> array of strings
+-- value_text mirrors scalar values as text so they can be searched.
+
+CREATE TABLE IF NOT EXISTS project_custom_fields (
+  field_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  field_type TEXT NOT NULL
+    CHECK (field_type IN ('text', 'number', 'date', 'single_select', 'multi_select', 'user', 'url')),
+  options JSONB NOT NULL DEFAULT '[]'::jsonb,  -- choices of select fields
+  is_required BOOLEAN NOT NULL DEFAULT FALSE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (project_uuid, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_custom_fields_project ON project_custom_fields(project_uuid, position);
+
+CREATE TABLE IF NOT EXISTS task_custom_field_values (
+  task_id BIGINT NOT NULL REFERENCES tasks(task_id) ON DELETE CASCADE,
+  field_id BIGINT NOT NULL REFERENCES project_custom_fields(field_id) ON DELETE CASCADE,
+  value JSONB NOT NULL,
+  value_text TEXT GENERATED ALWAYS AS (value #>> '{}') STORED,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (task_id, field_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_custom_field_values_field ON task_custom_field_values(field_id);
+CREATE INDEX IF NOT EXISTS idx_task_custom_field_values_value ON task_custom_field_values USING GIN (value);
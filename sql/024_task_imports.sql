@@ -0,0 +1,22 @@
+-- =============================================
+-- TASK IMPORTS
+-- =============================================
+-- CSV files staged for import into a project. The parsed rows are kept with
+-- the column mapping so the mapping can be adjusted and previewed (dry run)
+-- before the valid rows are committed as tasks in one batch.
+
+CREATE TABLE IF NOT EXISTS task_imports (
+  import_id BIGSERIAL PRIMARY KEY,
+  project_uuid UUID NOT NULL REFERENCES projects(project_uuid) ON DELETE CASCADE,
+  file_name TEXT,
+  headers JSONB NOT NULL,                   -- column names, in file order
+  rows JSONB NOT NULL,                      -- data rows as arrays of cell values
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb, -- column name -> task field
+  status TEXT NOT NULL DEFAULT 'previewed' CHECK (status IN ('previewed', 'committed')),
+  created_task_ids BIGINT[] NOT NULL DEFAULT '{}',
+  created_by BIGINT REFERENCES users(user_id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  committed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_imports_project ON task_imports(project_uuid, created_at DESC);
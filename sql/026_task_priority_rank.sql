@@ -0,0 +1,17 @@
+-- =============================================
+-- TASK PRIORITY RANK
+-- =============================================
+-- Priorities sort alphabetically as text (High, Low, Medium), so listTasks
+-- sorts by this rank instead: Low = 1, Medium = 2, High = 3, Critical = 4.
+
+ALTER TABLE tasks
+  ADD COLUMN IF NOT EXISTS priority_rank SMALLINT GENERATED ALWAYS AS (
+    CASE lower(priority::text)
+      WHEN 'low' THEN 1
+      WHEN 'medium' THEN 2
+      WHEN 'high' THEN 3
+      WHEN 'critical' THEN 4
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_priority_rank ON tasks(priority_rank);
@@ -9,6 +9,21 @@ const EnvSchema = z.object({
   // Use service role key for backend/server-side operations (keep it secret).
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
   CLERK_SECRET_KEY: z.string().min(1, "CLERK_SECRET_KEY is required"),
+
+  // Attachment storage: local disk by default, or Supabase Storage / any S3-compatible service.
+  STORAGE_DRIVER: z.enum(["local", "supabase", "s3"]).default("local"),
+  STORAGE_LOCAL_DIR: z.string().default("uploads"),
+  SUPABASE_STORAGE_BUCKET: z.string().default("attachments"),
+  S3_BUCKET: z.string().optional(),
+  S3_REGION: z.string().default("us-east-1"),
+  S3_ENDPOINT: z.string().url().optional(), // set for S3-compatible services (MinIO, R2, ...)
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
+  ATTACHMENT_MAX_BYTES: z.coerce.number().int().positive().default(25 * 1024 * 1024),
+
+  // Deleted projects and tasks stay restorable for this long before the cleanup job purges them.
+  TRASH_RETENTION_DAYS: z.coerce.number().int().positive().default(30),
+  TRASH_PURGE_INTERVAL_MINUTES: z.coerce.number().int().nonnegative().default(60), // 0 disables the job
 });
 
 export const env = EnvSchema.parse(process.env);
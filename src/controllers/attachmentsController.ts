@@ -0,0 +1,388 @@
+import { randomUUID } from "crypto";
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { getStorage } from "../services/storageService";
+
+const ATTACHMENT_SELECT = `
+  attachment_id,
+  project_uuid,
+  task_id,
+  file_name,
+  mime_type,
+  size_bytes,
+  uploaded_by,
+  created_at,
+  users:uploaded_by(name, email)
+`;
+
+const formatAttachment = (attachment: any) => ({
+  attachment_id: attachment.attachment_id,
+  project_uuid: attachment.project_uuid,
+  task_id: attachment.task_id,
+  file_name: attachment.file_name,
+  mime_type: attachment.mime_type,
+  size_bytes: attachment.size_bytes,
+  uploaded_by: attachment.uploaded_by,
+  uploader: attachment.users || null,
+  created_at: attachment.created_at,
+  download_url: `/api/attachments/${attachment.attachment_id}/download`,
+});
+
+/**
+ * Write an uploaded file to storage and record its metadata
+ * The stored object is removed again if the metadata insert fails.
+ */
+const storeAttachment = async (
+  file: Express.Multer.File,
+  projectUuid: string,
+  taskId: number | null,
+  userId: number
+) => {
+  const storage = getStorage();
+  const safeName = file.originalname.replace(/[^\w.\-]+/g, "_").slice(-100) || "file";
+  const storageKey = `${projectUuid}/${randomUUID()}-${safeName}`;
+
+  await storage.put(storageKey, file.buffer, file.mimetype);
+
+  const { data, error } = await supabase
+    .from("attachments")
+    .insert({
+      project_uuid: projectUuid,
+      task_id: taskId,
+      file_name: file.originalname,
+      mime_type: file.mimetype || "application/octet-stream",
+      size_bytes: file.size,
+      storage_driver: storage.driver,
+      storage_key: storageKey,
+      uploaded_by: userId,
+    })
+    .select(ATTACHMENT_SELECT)
+    .single();
+
+  if (error) {
+    await storage.remove(storageKey).catch((removeError) => {
+      console.error("Failed to clean up stored file:", removeError);
+    });
+  }
+
+  return { data, error };
+};
+
+/**
+ * List attachments of a task
+ */
+export const listTaskAttachments = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("attachments")
+    .select(ATTACHMENT_SELECT)
+    .eq("task_id", taskId)
+    .order("created_at", { ascending: false });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, attachments: (data || []).map(formatAttachment) });
+};
+
+/**
+ * Upload a file to a task (multipart field "file")
+ */
+export const uploadTaskAttachment = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!req.file) {
+    return res.status(400).json({ success: false, message: "file is required (multipart field \"file\")" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await storeAttachment(req.file, task.project_uuid, taskId, userId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, attachment: formatAttachment(data) });
+};
+
+/**
+ * List attachments of a project
+ * Project-level files only; pass includeTasks=true to include task attachments
+ */
+export const listProjectAttachments = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const includeTasks = req.query.includeTasks === "true";
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  let query = supabase
+    .from("attachments")
+    .select(`${ATTACHMENT_SELECT}, tasks:task_id(deleted_at)`)
+    .eq("project_uuid", projectUuid)
+    .order("created_at", { ascending: false });
+
+  if (!includeTasks) {
+    query = query.is("task_id", null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  // Attachments of trashed tasks stay hidden until the task is restored
+  const attachments = (data || []).filter((a: any) => !a.tasks?.deleted_at);
+
+  return res.json({ success: true, attachments: attachments.map(formatAttachment) });
+};
+
+/**
+ * Upload a file to a project (multipart field "file")
+ */
+export const uploadProjectAttachment = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!req.file) {
+    return res.status(400).json({ success: false, message: "file is required (multipart field \"file\")" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await storeAttachment(req.file, projectUuid, null, userId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, attachment: formatAttachment(data) });
+};
+
+/**
+ * Download an attachment
+ * Streams the file from its storage backend after checking project membership
+ */
+export const downloadAttachment = async (req: Request, res: Response) => {
+  const attachmentId = Number(req.params.attachmentId);
+  const userId = req.user?.userId;
+
+  if (isNaN(attachmentId)) {
+    return res.status(400).json({ success: false, message: "Invalid attachment ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: attachment } = await supabase
+    .from("attachments")
+    .select(`
+      file_name,
+      mime_type,
+      size_bytes,
+      storage_driver,
+      storage_key,
+      projects:project_uuid(owner_id, deleted_at, project_members!inner(user_id)),
+      tasks:task_id(deleted_at)
+    `)
+    .eq("attachment_id", attachmentId)
+    .single();
+
+  if (!attachment || (attachment as any).projects?.deleted_at || (attachment as any).tasks?.deleted_at) {
+    return res.status(404).json({ success: false, message: "Attachment not found" });
+  }
+
+  const project = (attachment as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const stream = await getStorage(attachment.storage_driver).get(attachment.storage_key);
+
+  res.setHeader("Content-Type", attachment.mime_type);
+  res.setHeader("Content-Length", String(attachment.size_bytes));
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename*=UTF-8''${encodeURIComponent(attachment.file_name)}`
+  );
+
+  stream.on("error", (error) => {
+    console.error("Failed to stream attachment:", error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
+
+/**
+ * Delete an attachment
+ * The uploader or the project owner can delete it
+ */
+export const deleteAttachment = async (req: Request, res: Response) => {
+  const attachmentId = Number(req.params.attachmentId);
+  const userId = req.user?.userId;
+
+  if (isNaN(attachmentId)) {
+    return res.status(400).json({ success: false, message: "Invalid attachment ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: attachment } = await supabase
+    .from("attachments")
+    .select("attachment_id, uploaded_by, storage_driver, storage_key, projects:project_uuid(owner_id, deleted_at), tasks:task_id(deleted_at)")
+    .eq("attachment_id", attachmentId)
+    .single();
+
+  if (!attachment || (attachment as any).projects?.deleted_at || (attachment as any).tasks?.deleted_at) {
+    return res.status(404).json({ success: false, message: "Attachment not found" });
+  }
+
+  const isUploader = attachment.uploaded_by === userId;
+  const isProjectOwner = (attachment as any).projects?.owner_id === userId;
+
+  if (!isUploader && !isProjectOwner) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. Only the uploader or project owner can delete this attachment."
+    });
+  }
+
+  const { error } = await supabase
+    .from("attachments")
+    .delete()
+    .eq("attachment_id", attachmentId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  // Metadata is gone; a leftover file is only logged
+  await getStorage(attachment.storage_driver).remove(attachment.storage_key).catch((removeError) => {
+    console.error("Failed to remove attachment from storage:", removeError);
+  });
+
+  return res.json({ success: true, message: "Attachment deleted successfully" });
+};
@@ -0,0 +1,244 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { recordTaskActivity } from "../services/activityService";
+import { getRankForPosition } from "../services/boardRankService";
+import { notifyTaskWatchers } from "../services/notificationService";
+import { createNextOccurrence } from "../services/recurrenceService";
+import { getProjectTaskStatuses, resolveTaskStatus } from "../services/taskStatusService";
+import type { MoveBoardCardRequest } from "../types/database";
+
+/**
+ * Get the Kanban board of a project
+ * Tasks are grouped into one column per workflow status and ordered by board_rank
+ */
+export const getProjectBoard = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  // Subtasks are included by default, like listTasks
+  const includeSubtasks = req.query.includeSubtasks !== "false";
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  let query = supabase
+    .from("tasks")
+    .select(`
+      task_id,
+      project_uuid,
+      title,
+      status,
+      status_category,
+      priority,
+      start_date,
+      due_date,
+      due_at,
+      is_all_day,
+      parent_task_id,
+      board_rank,
+      created_at
+    `)
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .order("board_rank", { ascending: true })
+    .order("task_id", { ascending: true });
+
+  if (!includeSubtasks) {
+    query = query.is("parent_task_id", null);
+  }
+
+  const [statuses, { data: tasks, error }] = await Promise.all([
+    getProjectTaskStatuses(projectUuid),
+    query,
+  ]);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  // Get assignments for all cards
+  const taskIds = (tasks || []).map(t => t.task_id);
+  const assignmentsByTask = new Map<number, any[]>();
+
+  if (taskIds.length > 0) {
+    const { data: assignments } = await supabase
+      .from("task_assignments")
+      .select("task_id, user_id, users:user_id(name, email, avatar_url)")
+      .in("task_id", taskIds);
+
+    assignments?.forEach(assignment => {
+      if (!assignmentsByTask.has(assignment.task_id)) {
+        assignmentsByTask.set(assignment.task_id, []);
+      }
+      assignmentsByTask.get(assignment.task_id)!.push({
+        user_id: assignment.user_id,
+        name: (assignment as any).users?.name,
+        email: (assignment as any).users?.email,
+        avatar_url: (assignment as any).users?.avatar_url,
+      });
+    });
+  }
+
+  const columns = statuses.map(status => ({
+    name: status.name,
+    category: status.category,
+    color: status.color ?? null,
+    tasks: [] as any[],
+  }));
+
+  for (const task of tasks || []) {
+    let column = columns.find(c => c.name === task.status);
+    // Tasks with a status outside the workflow still get a column so they stay visible
+    if (!column) {
+      column = { name: task.status, category: task.status_category, color: null, tasks: [] };
+      columns.push(column);
+    }
+    column.tasks.push({
+      ...task,
+      assignees: assignmentsByTask.get(task.task_id) || [],
+    });
+  }
+
+  return res.json({ success: true, board: { project_uuid: projectUuid, columns } });
+};
+
+/**
+ * Move a card to a column and position in one call
+ */
+export const moveBoardCard = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as MoveBoardCardRequest;
+  const taskId = Number(body.task_id);
+  const position = Number(body.position);
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (isNaN(taskId) || !body.status || !Number.isInteger(position) || position < 0) {
+    return res.status(400).json({
+      success: false,
+      message: "task_id, status and a non-negative integer position are required"
+    });
+  }
+
+  // Get task and verify access
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("task_id, project_uuid, status, status_category, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const statuses = await getProjectTaskStatuses(projectUuid);
+  const status = resolveTaskStatus(statuses, body.status);
+
+  if (!status) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid status. Allowed: ${statuses.map(s => s.name).join(", ")}`
+    });
+  }
+
+  // A task cannot be completed while any of its blockers are still open
+  if (status.category === "done" && task.status !== status.name) {
+    const { data: blockers } = await supabase
+      .from("task_dependencies")
+      .select("tasks:blocked_by_task_id(task_id, title, status, status_category)")
+      .eq("task_id", taskId)
+      .is("tasks.deleted_at", null);
+
+    const openBlockers = (blockers || [])
+      .map(d => (d as any).tasks)
+      .filter((t: any) => t && t.status_category !== "done");
+
+    if (openBlockers.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: "Task is blocked by open tasks and cannot be completed",
+        blockers: openBlockers,
+      });
+    }
+  }
+
+  const boardRank = await getRankForPosition(projectUuid, status.name, position, taskId);
+
+  const { data: updatedTask, error } = await supabase
+    .from("tasks")
+    .update({
+      status: status.name,
+      status_category: status.category,
+      board_rank: boardRank,
+    })
+    .eq("task_id", taskId)
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  if (task.status !== status.name) {
+    await recordTaskActivity(taskId, userId, [
+      { field: "status", old_value: task.status, new_value: status.name },
+    ]);
+
+    await notifyTaskWatchers({
+      type: "task_status_changed",
+      taskId,
+      actorId: userId,
+      data: { from: task.status, to: status.name },
+    });
+  }
+
+  // Completing a recurring task schedules its next occurrence
+  let nextOccurrence = null;
+  if (status.category === "done" && task.status_category !== "done") {
+    nextOccurrence = await createNextOccurrence(taskId, userId);
+  }
+
+  return res.json({
+    success: true,
+    task: updatedTask,
+    ...(nextOccurrence ? { nextOccurrence } : {}),
+  });
+};
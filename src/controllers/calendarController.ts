@@ -1,5 +1,7 @@
 import type { Request, Response } from "express";
 import { supabase } from "../config/supabaseClient";
+import { getMilestonesWithProgress } from "../services/milestoneService";
+import { getTaskSpan, isTaskOverdue, resolveViewerTimeZone } from "../services/taskScheduleService";
 
 export const getCalendarData = async (req: Request, res: Response) => {
   try {
@@ -11,6 +13,20 @@ export const getCalendarData = async (req: Request, res: Response) => {
     }
 
     const { start_date, end_date } = req.query;
+    // Comma-separated label IDs; a task matches if it carries any of them
+    const labelIds = req.query.labelIds
+      ? String(req.query.labelIds).split(",").map(Number).filter((id) => !isNaN(id))
+      : [];
+
+    if (start_date && end_date && ![start_date, end_date].every((d) => /^\d{4}-\d{2}-\d{2}/.test(String(d)))) {
+      return res.status(400).json({ success: false, message: "start_date and end_date must be dates (YYYY-MM-DD)" });
+    }
+
+    // Overdue flags are computed in the viewer's time zone
+    const { timeZone, error: timeZoneError } = await resolveViewerTimeZone(req.query.timeZone, userId);
+    if (timeZoneError) {
+      return res.status(400).json({ success: false, message: timeZoneError });
+    }
 
     let ownedProjectsQuery = supabase
       .from("projects")
@@ -26,7 +42,8 @@ export const getCalendarData = async (req: Request, res: Response) => {
         owner_id,
         created_at
       `)
-      .eq("owner_id", userId);
+      .eq("owner_id", userId)
+      .is("deleted_at", null);
 
     if (start_date && end_date) {
       ownedProjectsQuery = ownedProjectsQuery
@@ -59,7 +76,8 @@ export const getCalendarData = async (req: Request, res: Response) => {
           created_at
         )
       `)
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .is("projects.deleted_at", null);
 
     const { data: memberProjects, error: memberError } = await memberProjectsQuery;
 
@@ -84,12 +102,14 @@ export const getCalendarData = async (req: Request, res: Response) => {
         data: {
           projects: [],
           tasks: [],
+          milestones: [],
           summary: {
             totalProjects: 0,
             ownedProjects: 0,
             memberProjects: 0,
             totalTasks: 0,
             assignedTasks: 0,
+            totalMilestones: 0,
           },
         },
       });
@@ -107,12 +127,19 @@ export const getCalendarData = async (req: Request, res: Response) => {
           title,
           description,
           status,
+          status_category,
           priority,
+          start_date,
           due_date,
+          start_at,
+          due_at,
+          is_all_day,
+          time_zone,
           created_at
         )
       `)
-      .eq("user_id", userId);
+      .eq("user_id", userId)
+      .is("tasks.deleted_at", null);
 
     const { data: assignedTasksRaw, error: tasksError } = await assignedTasksQuery;
 
@@ -135,17 +162,28 @@ export const getCalendarData = async (req: Request, res: Response) => {
         title,
         description,
         status,
+        status_category,
         priority,
+        start_date,
         due_date,
+        start_at,
+        due_at,
+        is_all_day,
+        time_zone,
         created_at
       `)
-      .in("project_uuid", allProjectUuids);
+      .in("project_uuid", allProjectUuids)
+      .is("deleted_at", null);
 
+    // Tasks whose span (start date through due date) overlaps the range;
+    // a task with only one of the two dates covers that single day
     if (start_date && end_date) {
-      projectTasksQuery = projectTasksQuery
-        .gte("due_date", String(start_date))
-        .lte("due_date", String(end_date))
-        .not("due_date", "is", null);
+      const rangeStart = String(start_date).slice(0, 10);
+      const rangeEnd = String(end_date).slice(0, 10);
+      projectTasksQuery = projectTasksQuery.or(
+        `and(or(start_date.lte.${rangeEnd},and(start_date.is.null,due_date.lte.${rangeEnd})),` +
+        `or(due_date.gte.${rangeStart},and(due_date.is.null,start_date.gte.${rangeStart})))`
+      );
     }
 
     const { data: projectTasks, error: projectTasksError } = await projectTasksQuery;
@@ -220,8 +258,14 @@ export const getCalendarData = async (req: Request, res: Response) => {
               title: string;
               description: string | null;
               status: string;
+              status_category: string;
               priority: string;
+              start_date: string | null;
               due_date: string | null;
+              start_at: string | null;
+              due_at: string | null;
+              is_all_day: boolean;
+              time_zone: string;
               created_at: string;
             }
             | null
@@ -258,17 +302,71 @@ export const getCalendarData = async (req: Request, res: Response) => {
       return acc;
     }, []);
 
+    // Attach labels, and apply the label filter if one was given
+    const labelsByTask = new Map<number, any[]>();
+    if (uniqueTasks.length > 0) {
+      const { data: taskLabels } = await supabase
+        .from("task_labels")
+        .select("task_id, project_labels:label_id(label_id, name, color)")
+        .in("task_id", uniqueTasks.map((t) => t.task_id));
+
+      taskLabels?.forEach((taskLabel) => {
+        if (!labelsByTask.has(taskLabel.task_id)) {
+          labelsByTask.set(taskLabel.task_id, []);
+        }
+        labelsByTask.get(taskLabel.task_id)!.push((taskLabel as any).project_labels);
+      });
+    }
+
+    const calendarTasks = uniqueTasks
+      .map((task) => ({
+        ...task,
+        span: getTaskSpan(task),
+        isOverdue: isTaskOverdue(task, timeZone),
+        labels: labelsByTask.get(task.task_id) || [],
+      }))
+      .filter(
+        (task) =>
+          labelIds.length === 0 || task.labels.some((label: any) => labelIds.includes(label?.label_id))
+      );
+
+    // Milestones are one-day events on their target date
+    const milestones = await getMilestonesWithProgress(
+      allProjectUuids,
+      timeZone,
+      start_date && end_date
+        ? { from: String(start_date).slice(0, 10), to: String(end_date).slice(0, 10) }
+        : undefined
+    );
+
+    const calendarMilestones = milestones.map((milestone) => ({
+      milestone_id: milestone.milestone_id,
+      project_uuid: milestone.project_uuid,
+      name: milestone.name,
+      description: milestone.description,
+      date: milestone.target_date,
+      projects: projectsMap.get(milestone.project_uuid) || null,
+      total_tasks: milestone.total_tasks,
+      completed_tasks: milestone.completed_tasks,
+      completion: milestone.completion,
+      status: milestone.status,
+      at_risk_reasons: milestone.at_risk_reasons,
+    }));
+
     return res.status(200).json({
       success: true,
       data: {
+        timeZone,
         projects: uniqueProjects,
-        tasks: uniqueTasks,
+        tasks: calendarTasks,
+        milestones: calendarMilestones,
         summary: {
           totalProjects: uniqueProjects.length,
           ownedProjects: ownedProjects?.length || 0,
           memberProjects: memberProjects?.length || 0,
-          totalTasks: uniqueTasks.length,
-          assignedTasks: formattedAssignedTasks.length,
+          totalTasks: calendarTasks.length,
+          assignedTasks: calendarTasks.filter((t) => t.isAssigned).length,
+          totalMilestones: calendarMilestones.length,
         },
       },
     });
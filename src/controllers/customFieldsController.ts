@@ -0,0 +1,376 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { CUSTOM_FIELD_TYPES, escapeLikePattern, SELECT_FIELD_TYPES } from "../services/customFieldService";
+import type {
+  CreateCustomFieldRequest,
+  ProjectCustomField,
+  UpdateCustomFieldRequest,
+} from "../types/database";
+
+// Choices of a select field: distinct non-empty strings
+const isOptionList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.every(v => typeof v === "string" && v.trim() !== "") &&
+  new Set(value).size === value.length;
+
+/**
+ * List the custom fields of a project
+ */
+export const listProjectCustomFields = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("project_custom_fields")
+    .select("*")
+    .eq("project_uuid", projectUuid)
+    .order("position", { ascending: true })
+    .order("field_id", { ascending: true });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, fields: data || [] });
+};
+
+/**
+ * Define a custom field on a project's tasks (owner or admin only)
+ */
+export const createProjectCustomField = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as CreateCustomFieldRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return res.status(400).json({ success: false, message: "name is required" });
+  }
+
+  if (!CUSTOM_FIELD_TYPES.includes(body.field_type)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid field_type. Allowed: ${CUSTOM_FIELD_TYPES.join(", ")}`
+    });
+  }
+
+  const isSelect = SELECT_FIELD_TYPES.includes(body.field_type);
+
+  if (isSelect && (!isOptionList(body.options) || body.options.length === 0)) {
+    return res.status(400).json({
+      success: false,
+      message: "options must be a non-empty list of distinct strings for select fields"
+    });
+  }
+
+  if (!isSelect && body.options !== undefined) {
+    return res.status(400).json({ success: false, message: "options are only allowed on select fields" });
+  }
+
+  if (body.is_required !== undefined && typeof body.is_required !== "boolean") {
+    return res.status(400).json({ success: false, message: "is_required must be a boolean" });
+  }
+
+  // Verify user has permission (owner or admin)
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  if (project.owner_id !== userId) {
+    const { data: member } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_uuid", projectUuid)
+      .eq("user_id", userId)
+      .single();
+
+    if (!member || (member.role !== "admin" && member.role !== "owner")) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. Only project owners and admins can manage custom fields."
+      });
+    }
+  }
+
+  // Check if field already exists
+  const { data: existing } = await supabase
+    .from("project_custom_fields")
+    .select("field_id")
+    .eq("project_uuid", projectUuid)
+    .ilike("name", escapeLikePattern(name))
+    .maybeSingle();
+
+  if (existing) {
+    return res.status(409).json({ success: false, message: "A custom field with this name already exists" });
+  }
+
+  // New fields go last
+  const { data: lastField } = await supabase
+    .from("project_custom_fields")
+    .select("position")
+    .eq("project_uuid", projectUuid)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from("project_custom_fields")
+    .insert({
+      project_uuid: projectUuid,
+      name,
+      field_type: body.field_type,
+      options: isSelect ? body.options : [],
+      is_required: body.is_required ?? false,
+      position: lastField ? lastField.position + 1 : 0,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, field: data });
+};
+
+/**
+ * Rename, reorder or change the options of a custom field (owner or admin only)
+ * The type of a field can't be changed. Options still used by tasks can't be removed.
+ */
+export const updateProjectCustomField = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const fieldId = Number(req.params.fieldId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateCustomFieldRequest & { field_type?: unknown };
+
+  if (isNaN(fieldId)) {
+    return res.status(400).json({ success: false, message: "Invalid field ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (body.field_type !== undefined) {
+    return res.status(400).json({ success: false, message: "field_type cannot be changed" });
+  }
+
+  // Verify user has permission (owner or admin)
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  if (project.owner_id !== userId) {
+    const { data: member } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_uuid", projectUuid)
+      .eq("user_id", userId)
+      .single();
+
+    if (!member || (member.role !== "admin" && member.role !== "owner")) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. Only project owners and admins can manage custom fields."
+      });
+    }
+  }
+
+  const { data: field } = await supabase
+    .from("project_custom_fields")
+    .select("*")
+    .eq("field_id", fieldId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!field) {
+    return res.status(404).json({ success: false, message: "Custom field not found" });
+  }
+
+  const updateData: Partial<ProjectCustomField> = {};
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return res.status(400).json({ success: false, message: "name cannot be empty" });
+    }
+    updateData.name = name;
+  }
+
+  if (body.is_required !== undefined) {
+    if (typeof body.is_required !== "boolean") {
+      return res.status(400).json({ success: false, message: "is_required must be a boolean" });
+    }
+    updateData.is_required = body.is_required;
+  }
+
+  if (body.position !== undefined) {
+    if (!Number.isInteger(body.position) || body.position < 0) {
+      return res.status(400).json({ success: false, message: "position must be a non-negative integer" });
+    }
+    updateData.position = body.position;
+  }
+
+  if (body.options !== undefined) {
+    if (!SELECT_FIELD_TYPES.includes(field.field_type)) {
+      return res.status(400).json({ success: false, message: "options are only allowed on select fields" });
+    }
+    if (!isOptionList(body.options) || body.options.length === 0) {
+      return res.status(400).json({ success: false, message: "options must be a non-empty list of distinct strings" });
+    }
+
+    const removed = (field.options as string[]).filter(o => !body.options!.includes(o));
+    if (removed.length > 0) {
+      const { data: values } = await supabase
+        .from("task_custom_field_values")
+        .select("value")
+        .eq("field_id", fieldId);
+
+      const inUse = removed.filter(option =>
+        (values || []).some(v => v.value === option || (Array.isArray(v.value) && v.value.includes(option)))
+      );
+
+      if (inUse.length > 0) {
+        return res.status(409).json({
+          success: false,
+          message: "Some options are still used by tasks",
+          options: inUse,
+        });
+      }
+    }
+
+    updateData.options = body.options;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  if (updateData.name && updateData.name.toLowerCase() !== field.name.toLowerCase()) {
+    const { data: existing } = await supabase
+      .from("project_custom_fields")
+      .select("field_id")
+      .eq("project_uuid", projectUuid)
+      .ilike("name", escapeLikePattern(updateData.name))
+      .maybeSingle();
+
+    if (existing) {
+      return res.status(409).json({ success: false, message: "A custom field with this name already exists" });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("project_custom_fields")
+    .update({ ...updateData, updated_at: new Date().toISOString() })
+    .eq("field_id", fieldId)
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, field: data });
+};
+
+/**
+ * Delete a custom field and its values on every task (owner or admin only)
+ */
+export const deleteProjectCustomField = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const fieldId = Number(req.params.fieldId);
+  const userId = req.user?.userId;
+
+  if (isNaN(fieldId)) {
+    return res.status(400).json({ success: false, message: "Invalid field ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has permission (owner or admin)
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  if (project.owner_id !== userId) {
+    const { data: member } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_uuid", projectUuid)
+      .eq("user_id", userId)
+      .single();
+
+    if (!member || (member.role !== "admin" && member.role !== "owner")) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. Only project owners and admins can manage custom fields."
+      });
+    }
+  }
+
+  const { error } = await supabase
+    .from("project_custom_fields")
+    .delete()
+    .eq("field_id", fieldId)
+    .eq("project_uuid", projectUuid);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Custom field deleted successfully" });
+};
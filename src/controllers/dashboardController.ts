@@ -1,5 +1,6 @@
 import type { Request, Response } from "express";
 import { supabase } from "../config/supabaseClient";
+import { getLocalDate, isTaskOverdue, resolveViewerTimeZone } from "../services/taskScheduleService";
 //dashboardController.ts controller for dashboard data
 export const getDashboardData = async (req: Request, res: Response) => {
   try {
@@ -8,12 +9,21 @@ export const getDashboardData = async (req: Request, res: Response) => {
       return res.status(401).json({ success: false, message: "User not authenticated" });
     }
 
+    // Dates such as "overdue" are judged in the viewer's time zone
+    const { timeZone, error: timeZoneError } = await resolveViewerTimeZone(req.query.timeZone, userId);
+    if (timeZoneError) {
+      return res.status(400).json({ success: false, message: timeZoneError });
+    }
+    const now = new Date();
+    const today = getLocalDate(now, timeZone);
+
     const [ownedProjectsResult, memberProjectsResult] = await Promise.all([
-      supabase.from("projects").select("project_uuid").eq("owner_id", userId),
+      supabase.from("projects").select("project_uuid").eq("owner_id", userId).is("deleted_at", null),
       supabase
         .from("project_members")
-        .select("project_uuid")
-        .eq("user_id", userId),
+        .select("project_uuid, projects!inner(deleted_at)")
+        .eq("user_id", userId)
+        .is("projects.deleted_at", null),
     ]);
 
     if (ownedProjectsResult.error || memberProjectsResult.error) {
@@ -31,15 +41,21 @@ export const getDashboardData = async (req: Request, res: Response) => {
       return res.json({
         success: true,
         data: {
+          timeZone,
           completedProjects: 0,
           totalProjects: 0,
           totalTeamMembers: 0,
           recentTasks: [],
           upcomingDeadlines: [],
+          overdueTasks: [],
+          overdueCount: 0,
           stats: {
             projectsByStatus: {},
             tasksByStatus: {},
+            tasksByStatusCategory: {},
+            tasksByLabel: {},
             projectsByPriority: {},
+            estimates: {},
           },
         },
       });
@@ -47,7 +63,7 @@ export const getDashboardData = async (req: Request, res: Response) => {
 
     const { data: allProjects, error: projectsError } = await supabase
       .from("projects")
-      .select("project_id, project_uuid, name, status, priority, end_date, owner_id, created_at")
+      .select("project_id, project_uuid, name, status, priority, end_date, estimation_unit, owner_id, created_at")
       .in("project_uuid", allProjectUuids);
 
     if (projectsError) {
@@ -58,14 +74,7 @@ export const getDashboardData = async (req: Request, res: Response) => {
       });
     }
 
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const completedProjects = (allProjects || []).filter((project) => {
-      const endDate = new Date(project.end_date);
-      endDate.setHours(0, 0, 0, 0);
-      return endDate < today;
-    });
+    const completedProjects = (allProjects || []).filter((project) => project.end_date < today);
 
     const { data: allMembers, error: membersError } = await supabase
       .from("project_members")
@@ -125,8 +134,9 @@ export const getDashboardData = async (req: Request, res: Response) => {
     // ✅ FIXED: Fetch tasks WITHOUT nested project join first
     const { data: recentTasksRaw, error: recentTasksError } = await supabase
       .from("tasks")
-      .select("task_id, project_uuid, title, description, status, priority, due_date, created_at")
+      .select("task_id, project_uuid, title, description, status, status_category, priority, start_date, due_date, due_at, is_all_day, time_zone, created_at")
       .in("project_uuid", allProjectUuids)
+      .is("deleted_at", null)
       .gte("created_at", sevenDaysAgo.toISOString())
       .order("created_at", { ascending: false })
       .limit(10);
@@ -139,16 +149,18 @@ export const getDashboardData = async (req: Request, res: Response) => {
       });
     }
 
-    const fourteenDaysFromNow = new Date();
-    fourteenDaysFromNow.setDate(fourteenDaysFromNow.getDate() + 14);
+    const fourteenDaysFromToday = new Date(Date.parse(`${today}T00:00:00Z`) + 14 * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
 
     // ✅ FIXED: Fetch tasks WITHOUT nested project join first
     const { data: upcomingTasksRaw, error: upcomingTasksError } = await supabase
       .from("tasks")
-      .select("task_id, project_uuid, title, description, status, priority, due_date, created_at")
+      .select("task_id, project_uuid, title, description, status, status_category, priority, start_date, due_date, due_at, is_all_day, time_zone, created_at")
       .in("project_uuid", allProjectUuids)
-      .lte("due_date", fourteenDaysFromNow.toISOString().split("T")[0])
-      .gte("due_date", today.toISOString().split("T")[0])
+      .is("deleted_at", null)
+      .lte("due_date", fourteenDaysFromToday)
+      .gte("due_date", today)
       .not("due_date", "is", null)
       .order("due_date", { ascending: true })
       .limit(10);
@@ -161,9 +173,37 @@ export const getDashboardData = async (req: Request, res: Response) => {
       });
     }
 
+    // Open timed tasks whose due time has passed and tasks dated before the viewer's today.
+    // due_date of a timed task is local to the task's own zone, so it can't be compared
+    // with the viewer's date; isTaskOverdue below makes the final call.
+    const { data: overdueCandidates, error: overdueError } = await supabase
+      .from("tasks")
+      .select("task_id, project_uuid, title, description, status, status_category, priority, start_date, due_date, due_at, is_all_day, time_zone, created_at")
+      .in("project_uuid", allProjectUuids)
+      .is("deleted_at", null)
+      .neq("status_category", "done")
+      .or(`due_at.lte.${now.toISOString()},due_date.lt.${today}`)
+      .order("due_date", { ascending: true });
+
+    if (overdueError) {
+      return res.status(500).json({
+        success: false,
+        message: "Failed to fetch overdue tasks",
+        error: overdueError,
+      });
+    }
+
+    const overdueTasksRaw = (overdueCandidates || []).filter((task) => isTaskOverdue(task, timeZone, now));
+
     const { data: allTasks } = await supabase
       .from("tasks")
-      .select("status, priority")
+      .select("task_id, project_uuid, status, status_category, priority, estimate")
+      .in("project_uuid", allProjectUuids)
+      .is("deleted_at", null);
+
+    const { data: projectLabels } = await supabase
+      .from("project_labels")
+      .select("label_id, name, task_labels(task_id)")
       .in("project_uuid", allProjectUuids);
 
     // ✅ Create projects map for efficient lookup
@@ -176,8 +216,15 @@ export const getDashboardData = async (req: Request, res: Response) => {
       });
     });
 
+    const projectsUnit = new Map<string, string>();
+    (allProjects || []).forEach((p) => {
+      projectsUnit.set(p.project_uuid, p.estimation_unit);
+    });
+
     const projectsByStatus: Record<string, number> = {};
     const tasksByStatus: Record<string, number> = {};
+    const tasksByStatusCategory: Record<string, number> = {};
+    const tasksByLabel: Record<string, number> = {};
     const projectsByPriority: Record<string, number> = {};
 
     (allProjects || []).forEach((project) => {
@@ -187,48 +234,75 @@ export const getDashboardData = async (req: Request, res: Response) => {
 
     (allTasks || []).forEach((task) => {
       tasksByStatus[task.status] = (tasksByStatus[task.status] || 0) + 1;
+      tasksByStatusCategory[task.status_category] = (tasksByStatusCategory[task.status_category] || 0) + 1;
     });
 
-    // ✅ FIXED: Map project info from projectsMap
-    const formattedRecentTasks = (recentTasksRaw || []).map((task) => ({
-      task_id: task.task_id,
-      project_id: projectsMap.get(task.project_uuid)?.project_id,
-      project_uuid: task.project_uuid,
-      name: task.title, // ✅ Map title to name
-      description: task.description,
-      status: task.status,
-      priority: task.priority,
-      due_date: task.due_date,
-      created_at: task.created_at,
-      project: projectsMap.get(task.project_uuid) || null,
-    }));
+    // Estimates are summed per unit since projects may use hours or story points
+    const estimates: Record<string, { total: number; completed: number }> = {};
+    (allTasks || []).forEach((task) => {
+      if (task.estimate === null || task.estimate === undefined) return;
+      const unit = projectsUnit.get(task.project_uuid) || "hours";
+      if (!estimates[unit]) {
+        estimates[unit] = { total: 0, completed: 0 };
+      }
+      estimates[unit].total += Number(task.estimate);
+      if (task.status_category === "done") {
+        estimates[unit].completed += Number(task.estimate);
+      }
+    });
+
+    // Labels are per project; counts are merged by label name across projects
+    // Only tasks outside the trash are counted
+    const liveTaskIds = new Set((allTasks || []).map((task) => task.task_id));
+    (projectLabels || []).forEach((label) => {
+      const count = ((label as any).task_labels || []).filter((tl: any) => liveTaskIds.has(tl.task_id)).length;
+      if (count > 0) {
+        tasksByLabel[label.name] = (tasksByLabel[label.name] || 0) + count;
+      }
+    });
 
     // ✅ FIXED: Map project info from projectsMap
-    const formattedUpcomingDeadlines = (upcomingTasksRaw || []).map((task) => ({
+    const formatTask = (task: any) => ({
       task_id: task.task_id,
       project_id: projectsMap.get(task.project_uuid)?.project_id,
       project_uuid: task.project_uuid,
       name: task.title, // ✅ Map title to name
       description: task.description,
       status: task.status,
+      status_category: task.status_category,
       priority: task.priority,
+      start_date: task.start_date,
       due_date: task.due_date,
+      due_at: task.due_at,
+      is_all_day: task.is_all_day,
+      time_zone: task.time_zone,
+      isOverdue: isTaskOverdue(task, timeZone, now),
       created_at: task.created_at,
       project: projectsMap.get(task.project_uuid) || null,
-    }));
+    });
+
+    const formattedRecentTasks = (recentTasksRaw || []).map(formatTask);
+    const formattedUpcomingDeadlines = (upcomingTasksRaw || []).map(formatTask);
+    const formattedOverdueTasks = overdueTasksRaw.slice(0, 10).map(formatTask);
 
     return res.json({
       success: true,
       data: {
+        timeZone,
         completedProjects: completedProjects.length,
         totalProjects: allProjects?.length || 0,
         totalTeamMembers,
         recentTasks: formattedRecentTasks,
         upcomingDeadlines: formattedUpcomingDeadlines,
+        overdueTasks: formattedOverdueTasks,
+        overdueCount: overdueTasksRaw.length,
         stats: {
           projectsByStatus,
           tasksByStatus,
+          tasksByStatusCategory,
+          tasksByLabel,
           projectsByPriority,
+          estimates,
         },
       },
     });
@@ -0,0 +1,494 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { recordTaskActivity } from "../services/activityService";
+import {
+  canViewEpic,
+  computeEpicProgress,
+  getAccessibleProjectUuids,
+  getEpicTasks,
+  getVisibleEpicIds,
+} from "../services/epicService";
+import { canEditProject } from "../services/taskMoveService";
+import { resolveViewerTimeZone } from "../services/taskScheduleService";
+import type {
+  CreateEpicRequest,
+  Epic,
+  EpicStatus,
+  EpicTasksRequest,
+  UpdateEpicRequest,
+} from "../types/database";
+
+const EPIC_STATUSES: EpicStatus[] = ["planned", "in_progress", "done", "cancelled"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === "string" && DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/**
+ * List the epics the user can see, with progress rolled up from their tasks
+ */
+export const listEpics = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const status = req.query.status ? String(req.query.status) as EpicStatus : undefined;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (status && !EPIC_STATUSES.includes(status)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid status. Allowed: ${EPIC_STATUSES.join(", ")}`
+    });
+  }
+
+  const { timeZone, error: timeZoneError } = await resolveViewerTimeZone(req.query.timeZone, userId);
+  if (timeZoneError) {
+    return res.status(400).json({ success: false, message: timeZoneError });
+  }
+
+  const projectUuids = await getAccessibleProjectUuids(userId);
+  const epicIds = await getVisibleEpicIds(userId, projectUuids);
+
+  if (epicIds.length === 0) {
+    return res.json({ success: true, timeZone, epics: [] });
+  }
+
+  let query = supabase
+    .from("epics")
+    .select("*, owner:owner_id(user_id, name, email)")
+    .in("epic_id", epicIds)
+    .order("target_date", { ascending: true, nullsFirst: false })
+    .order("epic_id", { ascending: true });
+
+  if (status) {
+    query = query.eq("status", status);
+  }
+
+  const { data: epics, error } = await query;
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const tasksByEpic = await getEpicTasks((epics || []).map(e => e.epic_id));
+
+  return res.json({
+    success: true,
+    timeZone,
+    epics: (epics || []).map(epic => ({
+      ...epic,
+      progress: computeEpicProgress(tasksByEpic.get(epic.epic_id) || [], timeZone),
+    })),
+  });
+};
+
+/**
+ * Get an epic with its progress per project and its tasks
+ * Progress counts every task of the epic; the per-project breakdown and the
+ * task list only cover projects the user is a member of.
+ */
+export const getEpicById = async (req: Request, res: Response) => {
+  const epicId = Number(req.params.epicId);
+  const userId = req.user?.userId;
+
+  if (isNaN(epicId)) {
+    return res.status(400).json({ success: false, message: "Invalid epic ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { timeZone, error: timeZoneError } = await resolveViewerTimeZone(req.query.timeZone, userId);
+  if (timeZoneError) {
+    return res.status(400).json({ success: false, message: timeZoneError });
+  }
+
+  const { data: epic } = await supabase
+    .from("epics")
+    .select("*, owner:owner_id(user_id, name, email)")
+    .eq("epic_id", epicId)
+    .maybeSingle();
+
+  if (!epic) {
+    return res.status(404).json({ success: false, message: "Epic not found" });
+  }
+
+  const projectUuids = await getAccessibleProjectUuids(userId);
+
+  if (!(await canViewEpic(epic, userId, projectUuids))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not involved in this epic."
+    });
+  }
+
+  const tasks = (await getEpicTasks([epicId])).get(epicId) || [];
+  const visibleTasks = tasks.filter(t => projectUuids.includes(t.project_uuid));
+
+  // Group visible tasks by project
+  const tasksByProject = new Map<string, any[]>();
+  visibleTasks.forEach(task => {
+    if (!tasksByProject.has(task.project_uuid)) {
+      tasksByProject.set(task.project_uuid, []);
+    }
+    tasksByProject.get(task.project_uuid)!.push(task);
+  });
+
+  const projects = Array.from(tasksByProject.entries()).map(([projectUuid, projectTasks]) => ({
+    project_uuid: projectUuid,
+    name: projectTasks[0].projects?.name ?? null,
+    ...computeEpicProgress(projectTasks, timeZone),
+  }));
+
+  return res.json({
+    success: true,
+    timeZone,
+    epic: {
+      ...epic,
+      progress: computeEpicProgress(tasks, timeZone),
+      projects,
+      tasks: visibleTasks,
+      hidden_task_count: tasks.length - visibleTasks.length,
+    },
+  });
+};
+
+/**
+ * Create an epic; the creator owns it unless owner_id names someone else
+ */
+export const createEpic = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const body = req.body as CreateEpicRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const title = typeof body.title === "string" ? body.title.trim() : "";
+  if (!title) {
+    return res.status(400).json({ success: false, message: "title is required" });
+  }
+
+  if (body.status !== undefined && !EPIC_STATUSES.includes(body.status)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid status. Allowed: ${EPIC_STATUSES.join(", ")}`
+    });
+  }
+
+  if (body.target_date && !isValidDate(body.target_date)) {
+    return res.status(400).json({ success: false, message: "target_date must be a date (YYYY-MM-DD)" });
+  }
+
+  const ownerId = body.owner_id ?? userId;
+
+  if (ownerId !== userId) {
+    const { data: owner } = await supabase
+      .from("users")
+      .select("user_id")
+      .eq("user_id", ownerId)
+      .maybeSingle();
+
+    if (!owner) {
+      return res.status(400).json({ success: false, message: "owner_id must be an existing user" });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("epics")
+    .insert({
+      title,
+      description: body.description || null,
+      owner_id: ownerId,
+      status: body.status || "planned",
+      target_date: body.target_date || null,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, epic: data });
+};
+
+/**
+ * Update an epic (its owner or creator only)
+ */
+export const updateEpic = async (req: Request, res: Response) => {
+  const epicId = Number(req.params.epicId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateEpicRequest;
+
+  if (isNaN(epicId)) {
+    return res.status(400).json({ success: false, message: "Invalid epic ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: epic } = await supabase
+    .from("epics")
+    .select("epic_id, owner_id, created_by")
+    .eq("epic_id", epicId)
+    .maybeSingle();
+
+  if (!epic) {
+    return res.status(404).json({ success: false, message: "Epic not found" });
+  }
+
+  if (epic.owner_id !== userId && epic.created_by !== userId) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. Only the epic's owner or creator can change it."
+    });
+  }
+
+  const updateData: Partial<Epic> = {};
+  if (body.title !== undefined) {
+    const title = String(body.title).trim();
+    if (!title) {
+      return res.status(400).json({ success: false, message: "title cannot be empty" });
+    }
+    updateData.title = title;
+  }
+  if (body.description !== undefined) {
+    updateData.description = body.description || null;
+  }
+  if (body.status !== undefined) {
+    if (!EPIC_STATUSES.includes(body.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Allowed: ${EPIC_STATUSES.join(", ")}`
+      });
+    }
+    updateData.status = body.status;
+  }
+  if (body.target_date !== undefined) {
+    if (body.target_date && !isValidDate(body.target_date)) {
+      return res.status(400).json({ success: false, message: "target_date must be a date (YYYY-MM-DD)" });
+    }
+    updateData.target_date = body.target_date || null;
+  }
+  if (body.owner_id !== undefined) {
+    const { data: owner } = await supabase
+      .from("users")
+      .select("user_id")
+      .eq("user_id", body.owner_id)
+      .maybeSingle();
+
+    if (!owner) {
+      return res.status(400).json({ success: false, message: "owner_id must be an existing user" });
+    }
+    updateData.owner_id = body.owner_id;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  const { data, error } = await supabase
+    .from("epics")
+    .update({ ...updateData, updated_at: new Date().toISOString() })
+    .eq("epic_id", epicId)
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, epic: data });
+};
+
+/**
+ * Delete an epic (its owner or creator only); its tasks stay in their projects
+ */
+export const deleteEpic = async (req: Request, res: Response) => {
+  const epicId = Number(req.params.epicId);
+  const userId = req.user?.userId;
+
+  if (isNaN(epicId)) {
+    return res.status(400).json({ success: false, message: "Invalid epic ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: epic } = await supabase
+    .from("epics")
+    .select("epic_id, owner_id, created_by")
+    .eq("epic_id", epicId)
+    .maybeSingle();
+
+  if (!epic) {
+    return res.status(404).json({ success: false, message: "Epic not found" });
+  }
+
+  if (epic.owner_id !== userId && epic.created_by !== userId) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. Only the epic's owner or creator can delete it."
+    });
+  }
+
+  const { error } = await supabase
+    .from("epics")
+    .delete()
+    .eq("epic_id", epicId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Epic deleted successfully" });
+};
+
+/**
+ * Add tasks from any projects to an epic
+ * Needs edit rights in each task's project; a task can only be in one epic,
+ * so tasks of another epic are moved over.
+ */
+export const addEpicTasks = async (req: Request, res: Response) => {
+  const epicId = Number(req.params.epicId);
+  const userId = req.user?.userId;
+  const body = req.body as EpicTasksRequest;
+
+  if (isNaN(epicId)) {
+    return res.status(400).json({ success: false, message: "Invalid epic ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!Array.isArray(body.task_ids) || body.task_ids.length === 0) {
+    return res.status(400).json({ success: false, message: "task_ids must be a non-empty array" });
+  }
+
+  const { data: epic } = await supabase
+    .from("epics")
+    .select("epic_id, owner_id, created_by")
+    .eq("epic_id", epicId)
+    .maybeSingle();
+
+  if (!epic) {
+    return res.status(404).json({ success: false, message: "Epic not found" });
+  }
+
+  const projectUuids = await getAccessibleProjectUuids(userId);
+
+  if (!(await canViewEpic(epic, userId, projectUuids))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not involved in this epic."
+    });
+  }
+
+  const taskIds = Array.from(new Set(body.task_ids.map(Number)));
+  const { data: tasks } = await supabase
+    .from("tasks")
+    .select("task_id, project_uuid, epic_id")
+    .in("task_id", taskIds)
+    .is("deleted_at", null);
+
+  const found = new Set((tasks || []).map(t => t.task_id));
+  const missing = taskIds.filter(id => !found.has(id));
+
+  if (missing.length > 0) {
+    return res.status(400).json({ success: false, message: "Tasks not found", task_ids: missing });
+  }
+
+  const editableProjects = new Map<string, boolean>();
+  for (const task of tasks || []) {
+    if (!editableProjects.has(task.project_uuid)) {
+      editableProjects.set(task.project_uuid, await canEditProject(task.project_uuid, userId));
+    }
+  }
+
+  const forbidden = (tasks || []).filter(t => !editableProjects.get(t.project_uuid)).map(t => t.task_id);
+
+  if (forbidden.length > 0) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in each task's project.",
+      task_ids: forbidden,
+    });
+  }
+
+  const { error } = await supabase
+    .from("tasks")
+    .update({ epic_id: epicId })
+    .in("task_id", taskIds);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  for (const task of tasks || []) {
+    if (task.epic_id !== epicId) {
+      await recordTaskActivity(task.task_id, userId, [
+        { field: "epic_id", old_value: task.epic_id, new_value: epicId },
+      ]);
+    }
+  }
+
+  return res.json({ success: true, message: "Tasks added to epic" });
+};
+
+/**
+ * Take a task out of an epic (epic owner, or edit rights in the task's project)
+ */
+export const removeEpicTask = async (req: Request, res: Response) => {
+  const epicId = Number(req.params.epicId);
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(epicId) || isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid epic or task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("task_id, project_uuid, epics:epic_id(owner_id)")
+    .eq("task_id", taskId)
+    .eq("epic_id", epicId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found in this epic" });
+  }
+
+  const isEpicOwner = (task as any).epics?.owner_id === userId;
+
+  if (!isEpicOwner && !(await canEditProject(task.project_uuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this task's project."
+    });
+  }
+
+  const { error } = await supabase
+    .from("tasks")
+    .update({ epic_id: null })
+    .eq("task_id", taskId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  await recordTaskActivity(taskId, userId, [{ field: "epic_id", old_value: epicId, new_value: null }]);
+
+  return res.json({ success: true, message: "Task removed from epic" });
+};
@@ -0,0 +1,370 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import type { CreateLabelRequest, ProjectLabel, UpdateLabelRequest } from "../types/database";
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * List the labels of a project
+ */
+export const listProjectLabels = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("project_labels")
+    .select("label_id, project_uuid, name, color, created_by, created_at")
+    .eq("project_uuid", projectUuid)
+    .order("name", { ascending: true });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, labels: data || [] });
+};
+
+/**
+ * Create a label in a project
+ */
+export const createProjectLabel = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as CreateLabelRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return res.status(400).json({ success: false, message: "name is required" });
+  }
+
+  if (body.color !== undefined && !HEX_COLOR.test(body.color)) {
+    return res.status(400).json({ success: false, message: "color must be a hex value like #1f883d" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  // Check if label already exists
+  const { data: existing } = await supabase
+    .from("project_labels")
+    .select("label_id")
+    .eq("project_uuid", projectUuid)
+    .ilike("name", name)
+    .maybeSingle();
+
+  if (existing) {
+    return res.status(409).json({ success: false, message: "A label with this name already exists" });
+  }
+
+  const { data, error } = await supabase
+    .from("project_labels")
+    .insert({
+      project_uuid: projectUuid,
+      name,
+      ...(body.color ? { color: body.color } : {}),
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, label: data });
+};
+
+/**
+ * Rename or recolor a label
+ */
+export const updateProjectLabel = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const labelId = Number(req.params.labelId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateLabelRequest;
+
+  if (isNaN(labelId)) {
+    return res.status(400).json({ success: false, message: "Invalid label ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const updateData: Partial<ProjectLabel> = {};
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) {
+      return res.status(400).json({ success: false, message: "name cannot be empty" });
+    }
+    updateData.name = name;
+  }
+  if (body.color !== undefined) {
+    if (!HEX_COLOR.test(body.color)) {
+      return res.status(400).json({ success: false, message: "color must be a hex value like #1f883d" });
+    }
+    updateData.color = body.color;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  const { data, error } = await supabase
+    .from("project_labels")
+    .update(updateData)
+    .eq("label_id", labelId)
+    .eq("project_uuid", projectUuid)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  if (!data) {
+    return res.status(404).json({ success: false, message: "Label not found" });
+  }
+
+  return res.json({ success: true, label: data });
+};
+
+/**
+ * Delete a label (it is removed from every task automatically via CASCADE)
+ */
+export const deleteProjectLabel = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const labelId = Number(req.params.labelId);
+  const userId = req.user?.userId;
+
+  if (isNaN(labelId)) {
+    return res.status(400).json({ success: false, message: "Invalid label ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { error } = await supabase
+    .from("project_labels")
+    .delete()
+    .eq("label_id", labelId)
+    .eq("project_uuid", projectUuid);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Label deleted successfully" });
+};
+
+/**
+ * Attach a label to a task
+ * The label must belong to the task's project
+ */
+export const addLabelToTask = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const { label_id } = req.body as { label_id?: number };
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!label_id) {
+    return res.status(400).json({ success: false, message: "label_id is required" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: label } = await supabase
+    .from("project_labels")
+    .select("label_id")
+    .eq("label_id", label_id)
+    .eq("project_uuid", task.project_uuid)
+    .maybeSingle();
+
+  if (!label) {
+    return res.status(404).json({ success: false, message: "Label not found in this project" });
+  }
+
+  const { error } = await supabase
+    .from("task_labels")
+    .upsert({ task_id: taskId, label_id }, { onConflict: "task_id,label_id", ignoreDuplicates: true });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, message: "Label added to task" });
+};
+
+/**
+ * Detach a label from a task
+ */
+export const removeLabelFromTask = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const labelId = Number(req.params.labelId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId) || isNaN(labelId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID or label ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { error } = await supabase
+    .from("task_labels")
+    .delete()
+    .eq("task_id", taskId)
+    .eq("label_id", labelId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Label removed from task" });
+};
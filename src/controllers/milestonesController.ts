@@ -0,0 +1,287 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import {
+  computeMilestoneProgress,
+  getMilestonesWithProgress,
+  getMilestoneTasks,
+} from "../services/milestoneService";
+import { canEditProject } from "../services/taskMoveService";
+import { resolveViewerTimeZone } from "../services/taskScheduleService";
+import type { CreateMilestoneRequest, Milestone, UpdateMilestoneRequest } from "../types/database";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === "string" && DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/**
+ * List the milestones of a project with completion and at-risk status
+ * Status is computed in the viewer's time zone (timeZone query param or profile setting).
+ */
+export const listProjectMilestones = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { timeZone, error: timeZoneError } = await resolveViewerTimeZone(req.query.timeZone, userId);
+  if (timeZoneError) {
+    return res.status(400).json({ success: false, message: timeZoneError });
+  }
+
+  try {
+    const milestones = await getMilestonesWithProgress([projectUuid], timeZone);
+    return res.json({ success: true, timeZone, milestones });
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+};
+
+/**
+ * Get a milestone with its progress and tasks
+ */
+export const getProjectMilestone = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const milestoneId = Number(req.params.milestoneId);
+  const userId = req.user?.userId;
+
+  if (isNaN(milestoneId)) {
+    return res.status(400).json({ success: false, message: "Invalid milestone ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { timeZone, error: timeZoneError } = await resolveViewerTimeZone(req.query.timeZone, userId);
+  if (timeZoneError) {
+    return res.status(400).json({ success: false, message: timeZoneError });
+  }
+
+  const { data: milestone } = await supabase
+    .from("project_milestones")
+    .select("*")
+    .eq("milestone_id", milestoneId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!milestone) {
+    return res.status(404).json({ success: false, message: "Milestone not found" });
+  }
+
+  let tasks: any[];
+  try {
+    tasks = (await getMilestoneTasks([milestoneId])).get(milestoneId) || [];
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({
+    success: true,
+    timeZone,
+    milestone: {
+      ...milestone,
+      ...computeMilestoneProgress(milestone, tasks, timeZone),
+      tasks,
+    },
+  });
+};
+
+/**
+ * Create a milestone in a project (owner, admin or editor)
+ */
+export const createProjectMilestone = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as CreateMilestoneRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return res.status(400).json({ success: false, message: "name is required" });
+  }
+
+  if (!isValidDate(body.target_date)) {
+    return res.status(400).json({ success: false, message: "target_date is required (YYYY-MM-DD)" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("project_milestones")
+    .insert({
+      project_uuid: projectUuid,
+      name,
+      description: body.description || null,
+      target_date: body.target_date,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, milestone: data });
+};
+
+/**
+ * Rename, re-describe or reschedule a milestone (owner, admin or editor)
+ */
+export const updateProjectMilestone = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const milestoneId = Number(req.params.milestoneId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateMilestoneRequest;
+
+  if (isNaN(milestoneId)) {
+    return res.status(400).json({ success: false, message: "Invalid milestone ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const updateData: Partial<Milestone> = {};
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) {
+      return res.status(400).json({ success: false, message: "name cannot be empty" });
+    }
+    updateData.name = name;
+  }
+  if (body.target_date !== undefined) {
+    if (!isValidDate(body.target_date)) {
+      return res.status(400).json({ success: false, message: "target_date must be a date (YYYY-MM-DD)" });
+    }
+    updateData.target_date = body.target_date;
+  }
+  if (body.description !== undefined) {
+    updateData.description = body.description || null;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  const { data, error } = await supabase
+    .from("project_milestones")
+    .update({ ...updateData, updated_at: new Date().toISOString() })
+    .eq("milestone_id", milestoneId)
+    .eq("project_uuid", projectUuid)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  if (!data) {
+    return res.status(404).json({ success: false, message: "Milestone not found" });
+  }
+
+  return res.json({ success: true, milestone: data });
+};
+
+/**
+ * Delete a milestone; its tasks stay in the project without a milestone
+ */
+export const deleteProjectMilestone = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const milestoneId = Number(req.params.milestoneId);
+  const userId = req.user?.userId;
+
+  if (isNaN(milestoneId)) {
+    return res.status(400).json({ success: false, message: "Invalid milestone ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("project_milestones")
+    .delete()
+    .eq("milestone_id", milestoneId)
+    .eq("project_uuid", projectUuid)
+    .select("milestone_id");
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, message: "Milestone not found" });
+  }
+
+  return res.json({ success: true, message: "Milestone deleted successfully" });
+};
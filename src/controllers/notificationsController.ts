@@ -0,0 +1,134 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+
+const MAX_NOTIFICATIONS = 100;
+
+/**
+ * List the current user's notifications, newest first
+ * Pass unread=true to only get unread ones
+ */
+export const listNotifications = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const unreadOnly = req.query.unread === "true";
+  const limit = Math.min(Number(req.query.limit) || 50, MAX_NOTIFICATIONS);
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  let query = supabase
+    .from("notifications")
+    .select(`
+      notification_id,
+      type,
+      task_id,
+      project_uuid,
+      data,
+      read_at,
+      created_at,
+      actor:actor_id(user_id, name, email, avatar_url),
+      tasks:task_id(title)
+    `)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+
+  if (unreadOnly) {
+    query = query.is("read_at", null);
+  }
+
+  const [{ data, error }, { count: unreadCount }] = await Promise.all([
+    query,
+    supabase
+      .from("notifications")
+      .select("notification_id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null),
+  ]);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const notifications = (data || []).map(n => ({
+    notification_id: n.notification_id,
+    type: n.type,
+    task_id: n.task_id,
+    task_title: (n as any).tasks?.title ?? null,
+    project_uuid: n.project_uuid,
+    actor: (n as any).actor || null,
+    data: n.data,
+    read_at: n.read_at,
+    created_at: n.created_at,
+  }));
+
+  return res.json({ success: true, notifications, unreadCount: unreadCount || 0 });
+};
+
+/**
+ * Mark one notification as read
+ */
+export const markNotificationRead = async (req: Request, res: Response) => {
+  const notificationId = Number(req.params.notificationId);
+  const userId = req.user?.userId;
+
+  if (isNaN(notificationId)) {
+    return res.status(400).json({ success: false, message: "Invalid notification ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data, error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("notification_id", notificationId)
+    .eq("user_id", userId)
+    .is("read_at", null)
+    .select("notification_id");
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  if (!data || data.length === 0) {
+    // Either someone else's, missing, or already read
+    const { data: existing } = await supabase
+      .from("notifications")
+      .select("notification_id")
+      .eq("notification_id", notificationId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (!existing) {
+      return res.status(404).json({ success: false, message: "Notification not found" });
+    }
+  }
+
+  return res.json({ success: true });
+};
+
+/**
+ * Mark all of the current user's notifications as read
+ */
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data, error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null)
+    .select("notification_id");
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, updatedCount: data?.length || 0 });
+};
@@ -1,6 +1,7 @@
 import type { Request, Response } from "express";
 import { supabase } from "../config/supabaseClient";
 import { sendBatchProjectInvites } from "../services/emailService";
+import { removeProjectWatchers } from "../services/watcherService";
 import type { AddProjectMemberRequest, UpdateProjectMemberRequest, MemberRole } from "../types/database";
 
 /**
@@ -19,6 +20,7 @@ export const listProjectMembers = async (req: Request, res: Response) => {
     .from("projects")
     .select("owner_id, project_members!inner(user_id)")
     .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
     .single();
 
   if (!project) {
@@ -88,6 +90,7 @@ export const addProjectMember = async (req: Request, res: Response) => {
     .from("projects")
     .select("owner_id, project_uuid, name, description")
     .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
     .single();
 
   if (!project) {
@@ -220,6 +223,7 @@ export const updateProjectMember = async (req: Request, res: Response) => {
     .from("projects")
     .select("owner_id")
     .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
     .single();
 
   if (!project) {
@@ -307,6 +311,7 @@ export const removeProjectMember = async (req: Request, res: Response) => {
     .from("projects")
     .select("owner_id")
     .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
     .single();
 
   if (!project) {
@@ -335,7 +340,7 @@ export const removeProjectMember = async (req: Request, res: Response) => {
   // Verify member exists
   const { data: existingMember } = await supabase
     .from("project_members")
-    .select("id")
+    .select("id, user_id")
     .eq("id", memberId)
     .eq("project_uuid", projectUuid)
     .single();
@@ -355,6 +360,11 @@ export const removeProjectMember = async (req: Request, res: Response) => {
     return res.status(400).json({ success: false, error });
   }
 
+  // Former members stop watching the project's tasks
+  if (existingMember.user_id) {
+    await removeProjectWatchers(projectUuid, [existingMember.user_id]);
+  }
+
   return res.json({ success: true, message: "Member removed from project" });
 };
 
@@ -385,6 +395,7 @@ export const bulkAddProjectMembers = async (req: Request, res: Response) => {
     .from("projects")
     .select("owner_id, project_uuid, name, description")
     .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
     .single();
 
   if (!project) {
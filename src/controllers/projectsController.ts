@@ -1,6 +1,8 @@
 import type { Request, Response } from "express";
 import { supabase } from "../config/supabaseClient";
 import { sendBatchProjectInvites } from "../services/emailService";
+import { getPurgeAt, trashProjects } from "../services/trashService";
+import { removeProjectWatchers } from "../services/watcherService";
 
 // ✅ OPTIMIZED: Reduced from 3-4 queries to 2 queries (most efficient for this use case)
 export const listProjects = async (req: Request, res: Response) => {
@@ -21,10 +23,12 @@ export const listProjects = async (req: Request, res: Response) => {
       priority,
       start_date,
       end_date,
+      estimation_unit,
       owner_id,
       created_at
     `)
     .eq("owner_id", userId)
+    .is("deleted_at", null)
     .order("project_id", { ascending: true });
 
   if (ownedError) {
@@ -44,11 +48,13 @@ export const listProjects = async (req: Request, res: Response) => {
         priority,
         start_date,
         end_date,
+        estimation_unit,
         owner_id,
         created_at
       )
     `)
-    .eq("user_id", userId);
+    .eq("user_id", userId)
+    .is("projects.deleted_at", null); // trashed projects come back as null and are skipped below
 
   if (memberError) {
     return res.status(400).json({ success: false, error: memberError });
@@ -102,6 +108,7 @@ export const listProjects = async (req: Request, res: Response) => {
     priority: project.priority,
     start_date: project.start_date,
     end_date: project.end_date,
+    estimation_unit: project.estimation_unit,
     owner_id: project.owner_id,
     created_at: project.created_at,
     memberEmails: membersByProject.get(project.project_uuid) ?? [],
@@ -130,6 +137,7 @@ export const getProjectById = async (req: Request, res: Response) => {
       project_members(member_email, role, user_id)
     `)
     .eq("project_uuid", uuid)
+    .is("deleted_at", null)
     .single();
 
   if (projectError || !project) {
@@ -147,6 +155,36 @@ export const getProjectById = async (req: Request, res: Response) => {
     });
   }
 
+  // Roll up task estimates and logged time (planned vs actual)
+  const [{ data: projectTasks }, { data: timeEntries }] = await Promise.all([
+    supabase
+      .from("tasks")
+      .select("estimate, status_category")
+      .eq("project_uuid", uuid)
+      .is("deleted_at", null),
+    supabase
+      .from("time_entries")
+      .select("duration_seconds, tasks!inner(project_uuid)")
+      .eq("tasks.project_uuid", uuid)
+      .is("tasks.deleted_at", null)
+      .not("duration_seconds", "is", null),
+  ]);
+
+  let totalEstimate = 0;
+  let completedEstimate = 0;
+  let estimatedTasks = 0;
+  for (const task of projectTasks || []) {
+    if (task.estimate === null || task.estimate === undefined) continue;
+    const estimate = Number(task.estimate);
+    estimatedTasks += 1;
+    totalEstimate += estimate;
+    if (task.status_category === "done") {
+      completedEstimate += estimate;
+    }
+  }
+
+  const loggedSeconds = (timeEntries || []).reduce((sum, e) => sum + (e.duration_seconds || 0), 0);
+
   // Transform response
   const projectWithMembers = {
     project_id: project.project_id,
@@ -157,9 +195,19 @@ export const getProjectById = async (req: Request, res: Response) => {
     priority: project.priority,
     start_date: project.start_date,
     end_date: project.end_date,
+    estimation_unit: project.estimation_unit,
     owner_id: project.owner_id,
     created_at: project.created_at,
     memberEmails: project.project_members?.map((m: any) => m.member_email).filter(Boolean) ?? [],
+    estimates: {
+      unit: project.estimation_unit,
+      total: totalEstimate,
+      completed: completedEstimate,
+      remaining: totalEstimate - completedEstimate,
+      estimatedTasks,
+      unestimatedTasks: (projectTasks?.length || 0) - estimatedTasks,
+      loggedSeconds,
+    },
   };
 
   return res.json({ success: true, project: projectWithMembers });
@@ -284,6 +332,7 @@ export const updateProject = async (req: Request, res: Response) => {
     .from("projects")
     .select("project_id, project_uuid, owner_id, name, description")
     .eq("project_uuid", uuid)
+    .is("deleted_at", null)
     .single();
 
   if (checkError || !existingProject) {
@@ -318,6 +367,17 @@ export const updateProject = async (req: Request, res: Response) => {
 
   const { memberEmails: _ignored, ...projectPayload } = body;
 
+  if (
+    projectPayload.estimation_unit !== undefined &&
+    projectPayload.estimation_unit !== "hours" &&
+    projectPayload.estimation_unit !== "points"
+  ) {
+    return res.status(400).json({
+      success: false,
+      message: "estimation_unit must be 'hours' or 'points'"
+    });
+  }
+
   // Filter out fields that shouldn't be updated directly
   const allowedFields = [
     'name',
@@ -325,7 +385,8 @@ export const updateProject = async (req: Request, res: Response) => {
     'status',
     'priority',
     'start_date',
-    'end_date'
+    'end_date',
+    'estimation_unit'
   ];
 
   const filteredPayload: Record<string, unknown> = {};
@@ -358,6 +419,7 @@ export const updateProject = async (req: Request, res: Response) => {
         .from("projects")
         .select("*")
         .eq("project_uuid", uuid)
+        .is("deleted_at", null)
         .single();
 
       if (refetchedProject) {
@@ -371,7 +433,7 @@ export const updateProject = async (req: Request, res: Response) => {
     // Get existing members before deleting
     const { data: existingMembers } = await supabase
       .from("project_members")
-      .select("member_email")
+      .select("member_email, user_id")
       .eq("project_uuid", uuid);
 
     const existingEmailSet = new Set(
@@ -447,6 +509,13 @@ export const updateProject = async (req: Request, res: Response) => {
         })();
       }
     }
+
+    // Members dropped from the list stop watching the project's tasks
+    const keptEmails = new Set(memberEmails.map((email) => email.toLowerCase()));
+    const removedUserIds = (existingMembers || [])
+      .filter((m) => m.user_id && m.user_id !== existingProject.owner_id && !keptEmails.has(m.member_email.toLowerCase()))
+      .map((m) => m.user_id);
+    await removeProjectWatchers(uuid, removedUserIds);
   }
 
   // Get final member list
@@ -485,7 +554,8 @@ export const deleteProject = async (req: Request, res: Response) => {
   const { data: projects, error: fetchError } = await supabase
     .from("projects")
     .select("project_id, project_uuid, owner_id")
-    .in("project_uuid", uuidsToDelete);
+    .in("project_uuid", uuidsToDelete)
+    .is("deleted_at", null);
 
   if (fetchError) {
     return res.status(400).json({ success: false, error: fetchError });
@@ -500,19 +570,22 @@ export const deleteProject = async (req: Request, res: Response) => {
     });
   }
 
-  // Delete projects
-  const { error } = await supabase
-    .from("projects")
-    .delete()
-    .in("project_uuid", uuidsToDelete);
+  if (!projects || projects.length === 0) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
 
-  if (error) {
+  // Move projects and their tasks to the trash; the owner can restore them until they're purged
+  let deletedAt: string;
+  try {
+    deletedAt = await trashProjects(projects.map(p => p.project_uuid), userId);
+  } catch (error) {
     return res.status(400).json({ success: false, error });
   }
 
   return res.json({
     success: true,
-    deletedCount: uuidsToDelete.length
+    deletedCount: projects.length,
+    purgeAt: getPurgeAt(deletedAt)
   });
 };
 
@@ -573,6 +646,7 @@ export const sendProjectInvites = async (req: Request, res: Response) => {
       project_members(user_id)
     `)
     .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
     .single();
 
   if (projectError || !project) {
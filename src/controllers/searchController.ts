@@ -0,0 +1,103 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import type { SearchResult, SearchResultType } from "../types/database";
+
+const SEARCH_RESULT_TYPES: SearchResultType[] = ["task", "project", "comment", "member"];
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Search tasks, projects, comments and member names
+ * Only projects the caller owns or belongs to are searched. Results are ranked
+ * by relevance and carry highlighted titles and snippets.
+ */
+export const search = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const query = String(req.query.q || "").trim();
+  const projectUuid = req.query.projectUuid ? String(req.query.projectUuid) : undefined;
+  // Comma-separated subset of result types; all types by default
+  const types = req.query.types
+    ? String(req.query.types).split(",").map(t => t.trim()).filter(Boolean)
+    : SEARCH_RESULT_TYPES;
+  const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_SEARCH_LIMIT;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!query) {
+    return res.json({ success: true, query, results: [] });
+  }
+
+  if (query.length > MAX_QUERY_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      message: `q must be at most ${MAX_QUERY_LENGTH} characters`
+    });
+  }
+
+  const invalidTypes = types.filter(t => !SEARCH_RESULT_TYPES.includes(t as SearchResultType));
+  if (invalidTypes.length > 0) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid types: ${invalidTypes.join(", ")}. Allowed: ${SEARCH_RESULT_TYPES.join(", ")}`
+    });
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    return res.status(400).json({
+      success: false,
+      message: `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}`
+    });
+  }
+
+  // Get all project UUIDs user has access to
+  const { data: userProjects } = await supabase
+    .from("project_members")
+    .select("project_uuid")
+    .eq("user_id", userId);
+
+  const { data: ownedProjects } = await supabase
+    .from("projects")
+    .select("project_uuid")
+    .eq("owner_id", userId);
+
+  const projectUuids = new Set<string>();
+  userProjects?.forEach(p => projectUuids.add(p.project_uuid));
+  ownedProjects?.forEach(p => projectUuids.add(p.project_uuid));
+
+  if (projectUuid && !projectUuids.has(projectUuid)) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  if (projectUuids.size === 0) {
+    return res.json({ success: true, query, results: [] });
+  }
+
+  const { data, error } = await supabase.rpc("search_workspace", {
+    search_query: query,
+    project_uuids: projectUuid ? [projectUuid] : Array.from(projectUuids),
+    result_types: types,
+    result_limit: limit,
+  });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const results = ((data || []) as SearchResult[]).map(result => ({
+    type: result.result_type,
+    id: result.result_id,
+    project_uuid: result.project_uuid,
+    task_id: result.task_id,
+    title: result.title,
+    snippet: result.snippet,
+    rank: result.rank,
+  }));
+
+  return res.json({ success: true, query, results });
+};
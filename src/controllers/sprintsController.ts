@@ -0,0 +1,670 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import {
+  addTasksToSprint,
+  closeSprint,
+  computeSprintProgress,
+  getSprintTasks,
+  getTasksInOpenSprints,
+} from "../services/sprintService";
+import { canEditProject } from "../services/taskMoveService";
+import type {
+  CloseSprintRequest,
+  CreateSprintRequest,
+  Sprint,
+  SprintStatus,
+  SprintSummary,
+  SprintTasksRequest,
+  UpdateSprintRequest,
+} from "../types/database";
+
+const SPRINT_STATUSES: SprintStatus[] = ["planned", "active", "closed"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: unknown): value is string =>
+  typeof value === "string" && DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+/**
+ * Check a list of task IDs against a project
+ * Returns the IDs that are not live tasks of the project and those already
+ * committed to another open sprint.
+ */
+const checkSprintTasks = async (projectUuid: string, taskIds: number[], sprintId?: number) => {
+  const { data: tasks } = await supabase
+    .from("tasks")
+    .select("task_id")
+    .eq("project_uuid", projectUuid)
+    .in("task_id", taskIds)
+    .is("deleted_at", null);
+
+  const found = new Set((tasks || []).map(t => t.task_id));
+
+  return {
+    missing: taskIds.filter(id => !found.has(id)),
+    inOtherSprints: await getTasksInOpenSprints(projectUuid, taskIds, sprintId),
+  };
+};
+
+/**
+ * List the sprints of a project, newest first
+ * Open sprints report live progress; closed ones the summary taken when they closed.
+ */
+export const listProjectSprints = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const status = req.query.status ? String(req.query.status) as SprintStatus : undefined;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (status && !SPRINT_STATUSES.includes(status)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid status. Allowed: ${SPRINT_STATUSES.join(", ")}`
+    });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  let query = supabase
+    .from("project_sprints")
+    .select("*")
+    .eq("project_uuid", projectUuid)
+    .order("start_date", { ascending: false })
+    .order("sprint_id", { ascending: false });
+
+  if (status) {
+    query = query.eq("status", status);
+  }
+
+  const { data: sprints, error } = await query;
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const openSprintIds = (sprints || []).filter(s => s.status !== "closed").map(s => s.sprint_id);
+  const tasksBySprint = await getSprintTasks(openSprintIds);
+
+  return res.json({
+    success: true,
+    sprints: (sprints || []).map(sprint => ({
+      ...sprint,
+      progress: sprint.status === "closed"
+        ? sprint.summary
+        : computeSprintProgress(tasksBySprint.get(sprint.sprint_id) || []),
+    })),
+  });
+};
+
+/**
+ * Get a sprint with its tasks and progress
+ */
+export const getProjectSprint = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const sprintId = Number(req.params.sprintId);
+  const userId = req.user?.userId;
+
+  if (isNaN(sprintId)) {
+    return res.status(400).json({ success: false, message: "Invalid sprint ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: sprint } = await supabase
+    .from("project_sprints")
+    .select("*")
+    .eq("sprint_id", sprintId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!sprint) {
+    return res.status(404).json({ success: false, message: "Sprint not found" });
+  }
+
+  const entries = (await getSprintTasks([sprintId])).get(sprintId) || [];
+
+  return res.json({
+    success: true,
+    sprint: {
+      ...sprint,
+      progress: sprint.status === "closed" ? sprint.summary : computeSprintProgress(entries),
+      tasks: entries.map(e => ({
+        ...e.task,
+        added_at: e.added_at,
+        added_after_start: e.added_after_start,
+        carried_over_from: e.carried_over_from,
+      })),
+    },
+  });
+};
+
+/**
+ * Plan a sprint, optionally committing tasks to it (owner, admin or editor)
+ */
+export const createProjectSprint = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as CreateSprintRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return res.status(400).json({ success: false, message: "name is required" });
+  }
+
+  if (!isValidDate(body.start_date) || !isValidDate(body.end_date)) {
+    return res.status(400).json({ success: false, message: "start_date and end_date are required (YYYY-MM-DD)" });
+  }
+
+  if (body.start_date > body.end_date) {
+    return res.status(400).json({ success: false, message: "start_date must not be after end_date" });
+  }
+
+  if (body.task_ids !== undefined && !Array.isArray(body.task_ids)) {
+    return res.status(400).json({ success: false, message: "task_ids must be an array" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const taskIds = Array.from(new Set((body.task_ids || []).map(Number)));
+
+  if (taskIds.length > 0) {
+    const { missing, inOtherSprints } = await checkSprintTasks(projectUuid, taskIds);
+
+    if (missing.length > 0) {
+      return res.status(400).json({ success: false, message: "Tasks not found in this project", task_ids: missing });
+    }
+
+    if (inOtherSprints.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: "Some tasks are already in another open sprint",
+        tasks: inOtherSprints,
+      });
+    }
+  }
+
+  const { data: sprint, error } = await supabase
+    .from("project_sprints")
+    .insert({
+      project_uuid: projectUuid,
+      name,
+      goal: body.goal || null,
+      start_date: body.start_date,
+      end_date: body.end_date,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error || !sprint) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  try {
+    await addTasksToSprint(sprint, taskIds);
+  } catch (taskError) {
+    console.error("Failed to add tasks to sprint:", taskError);
+    // Don't fail the request, just log the error
+  }
+
+  return res.status(201).json({ success: true, sprint });
+};
+
+/**
+ * Rename, reschedule or change the goal of an open sprint (owner, admin or editor)
+ */
+export const updateProjectSprint = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const sprintId = Number(req.params.sprintId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateSprintRequest;
+
+  if (isNaN(sprintId)) {
+    return res.status(400).json({ success: false, message: "Invalid sprint ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: sprint } = await supabase
+    .from("project_sprints")
+    .select("*")
+    .eq("sprint_id", sprintId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!sprint) {
+    return res.status(404).json({ success: false, message: "Sprint not found" });
+  }
+
+  if (sprint.status === "closed") {
+    return res.status(409).json({ success: false, message: "Closed sprints cannot be changed" });
+  }
+
+  const updateData: Partial<Sprint> = {};
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) {
+      return res.status(400).json({ success: false, message: "name cannot be empty" });
+    }
+    updateData.name = name;
+  }
+  if (body.goal !== undefined) {
+    updateData.goal = body.goal || null;
+  }
+  for (const field of ["start_date", "end_date"] as const) {
+    if (body[field] !== undefined) {
+      if (!isValidDate(body[field])) {
+        return res.status(400).json({ success: false, message: `${field} must be a date (YYYY-MM-DD)` });
+      }
+      updateData[field] = body[field];
+    }
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  if ((updateData.start_date ?? sprint.start_date) > (updateData.end_date ?? sprint.end_date)) {
+    return res.status(400).json({ success: false, message: "start_date must not be after end_date" });
+  }
+
+  const { data, error } = await supabase
+    .from("project_sprints")
+    .update({ ...updateData, updated_at: new Date().toISOString() })
+    .eq("sprint_id", sprintId)
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, sprint: data });
+};
+
+/**
+ * Delete a planned sprint; its tasks stay in the project
+ */
+export const deleteProjectSprint = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const sprintId = Number(req.params.sprintId);
+  const userId = req.user?.userId;
+
+  if (isNaN(sprintId)) {
+    return res.status(400).json({ success: false, message: "Invalid sprint ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: sprint } = await supabase
+    .from("project_sprints")
+    .select("sprint_id, status")
+    .eq("sprint_id", sprintId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!sprint) {
+    return res.status(404).json({ success: false, message: "Sprint not found" });
+  }
+
+  // Started sprints are part of the project's history
+  if (sprint.status !== "planned") {
+    return res.status(409).json({ success: false, message: "Only planned sprints can be deleted" });
+  }
+
+  const { error } = await supabase
+    .from("project_sprints")
+    .delete()
+    .eq("sprint_id", sprintId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Sprint deleted successfully" });
+};
+
+/**
+ * Commit tasks to an open sprint
+ * Tasks added after the sprint started count as added scope in its summary.
+ */
+export const addSprintTasks = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const sprintId = Number(req.params.sprintId);
+  const userId = req.user?.userId;
+  const body = req.body as SprintTasksRequest;
+
+  if (isNaN(sprintId)) {
+    return res.status(400).json({ success: false, message: "Invalid sprint ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!Array.isArray(body.task_ids) || body.task_ids.length === 0) {
+    return res.status(400).json({ success: false, message: "task_ids must be a non-empty array" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: sprint } = await supabase
+    .from("project_sprints")
+    .select("sprint_id, status")
+    .eq("sprint_id", sprintId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!sprint) {
+    return res.status(404).json({ success: false, message: "Sprint not found" });
+  }
+
+  if (sprint.status === "closed") {
+    return res.status(409).json({ success: false, message: "Closed sprints cannot be changed" });
+  }
+
+  const taskIds = Array.from(new Set(body.task_ids.map(Number)));
+  const { missing, inOtherSprints } = await checkSprintTasks(projectUuid, taskIds, sprintId);
+
+  if (missing.length > 0) {
+    return res.status(400).json({ success: false, message: "Tasks not found in this project", task_ids: missing });
+  }
+
+  if (inOtherSprints.length > 0) {
+    return res.status(409).json({
+      success: false,
+      message: "Some tasks are already in another open sprint",
+      tasks: inOtherSprints,
+    });
+  }
+
+  try {
+    await addTasksToSprint(sprint, taskIds);
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Tasks added to sprint" });
+};
+
+/**
+ * Take a task out of an open sprint
+ */
+export const removeSprintTask = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const sprintId = Number(req.params.sprintId);
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(sprintId) || isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid sprint or task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: sprint } = await supabase
+    .from("project_sprints")
+    .select("sprint_id, status")
+    .eq("sprint_id", sprintId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!sprint) {
+    return res.status(404).json({ success: false, message: "Sprint not found" });
+  }
+
+  if (sprint.status === "closed") {
+    return res.status(409).json({ success: false, message: "Closed sprints cannot be changed" });
+  }
+
+  const { error } = await supabase
+    .from("sprint_tasks")
+    .delete()
+    .eq("sprint_id", sprintId)
+    .eq("task_id", taskId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Task removed from sprint" });
+};
+
+/**
+ * Start a planned sprint; a project can only run one sprint at a time
+ * The tasks in the sprint at this point are its commitment.
+ */
+export const startProjectSprint = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const sprintId = Number(req.params.sprintId);
+  const userId = req.user?.userId;
+
+  if (isNaN(sprintId)) {
+    return res.status(400).json({ success: false, message: "Invalid sprint ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: sprint } = await supabase
+    .from("project_sprints")
+    .select("sprint_id, status")
+    .eq("sprint_id", sprintId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!sprint) {
+    return res.status(404).json({ success: false, message: "Sprint not found" });
+  }
+
+  if (sprint.status !== "planned") {
+    return res.status(409).json({ success: false, message: `Sprint is already ${sprint.status}` });
+  }
+
+  const { data: activeSprint } = await supabase
+    .from("project_sprints")
+    .select("sprint_id, name")
+    .eq("project_uuid", projectUuid)
+    .eq("status", "active")
+    .maybeSingle();
+
+  if (activeSprint) {
+    return res.status(409).json({
+      success: false,
+      message: "Close the active sprint before starting another one",
+      activeSprint,
+    });
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("project_sprints")
+    .update({ status: "active", started_at: now, updated_at: now })
+    .eq("sprint_id", sprintId)
+    .eq("status", "planned")
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, sprint: data });
+};
+
+/**
+ * Close the active sprint and report committed vs completed work
+ * Unfinished tasks are carried over into `carry_over_to`, by default the next
+ * planned sprint of the project (pass null to leave them out of any sprint).
+ */
+export const closeProjectSprint = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const sprintId = Number(req.params.sprintId);
+  const userId = req.user?.userId;
+  const body = (req.body || {}) as CloseSprintRequest;
+
+  if (isNaN(sprintId)) {
+    return res.status(400).json({ success: false, message: "Invalid sprint ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: sprint } = await supabase
+    .from("project_sprints")
+    .select("*")
+    .eq("sprint_id", sprintId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!sprint) {
+    return res.status(404).json({ success: false, message: "Sprint not found" });
+  }
+
+  if (sprint.status !== "active") {
+    return res.status(409).json({ success: false, message: "Only the active sprint can be closed" });
+  }
+
+  let carryOverTo: Pick<Sprint, "sprint_id" | "status"> | null = null;
+
+  if (body.carry_over_to !== undefined && body.carry_over_to !== null) {
+    const { data: target } = await supabase
+      .from("project_sprints")
+      .select("sprint_id, status")
+      .eq("sprint_id", Number(body.carry_over_to))
+      .eq("project_uuid", projectUuid)
+      .eq("status", "planned")
+      .maybeSingle();
+
+    if (!target) {
+      return res.status(400).json({
+        success: false,
+        message: "carry_over_to must be a planned sprint of this project"
+      });
+    }
+    carryOverTo = target;
+  } else if (body.carry_over_to === undefined) {
+    const { data: nextSprints } = await supabase
+      .from("project_sprints")
+      .select("sprint_id, status")
+      .eq("project_uuid", projectUuid)
+      .eq("status", "planned")
+      .order("start_date", { ascending: true })
+      .order("sprint_id", { ascending: true })
+      .limit(1);
+
+    carryOverTo = nextSprints?.[0] || null;
+  }
+
+  let summary: SprintSummary;
+  try {
+    summary = await closeSprint(sprint, carryOverTo);
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Sprint closed", summary });
+};
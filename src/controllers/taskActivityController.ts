@@ -0,0 +1,83 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+
+const MAX_ACTIVITY = 200;
+
+/**
+ * Get the change history of a task, newest first
+ * Pass `before` (an activity ID) to page further back
+ */
+export const listTaskActivity = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const limit = Math.min(Number(req.query.limit) || 50, MAX_ACTIVITY);
+  const before = req.query.before ? Number(req.query.before) : undefined;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (before !== undefined && isNaN(before)) {
+    return res.status(400).json({ success: false, message: "Invalid before cursor" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  let query = supabase
+    .from("task_activity")
+    .select("activity_id, field, old_value, new_value, created_at, actor_id, users:actor_id(name, email, avatar_url)")
+    .eq("task_id", taskId)
+    .order("activity_id", { ascending: false })
+    .limit(limit);
+
+  if (before !== undefined) {
+    query = query.lt("activity_id", before);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const activity = (data || []).map(entry => ({
+    activity_id: entry.activity_id,
+    field: entry.field,
+    old_value: entry.old_value,
+    new_value: entry.new_value,
+    actor_id: entry.actor_id,
+    actor: (entry as any).users || null,
+    created_at: entry.created_at,
+  }));
+
+  return res.json({
+    success: true,
+    activity,
+    nextBefore: activity.length === limit ? activity[activity.length - 1].activity_id : null,
+  });
+};
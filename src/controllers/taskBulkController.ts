@@ -0,0 +1,385 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { diffTaskFields, recordAssigneeChange, recordTaskActivity } from "../services/activityService";
+import { getEndOfColumnRank } from "../services/boardRankService";
+import { notifyTaskWatchers } from "../services/notificationService";
+import { createNextOccurrence } from "../services/recurrenceService";
+import { canEditProject, moveTaskToProject } from "../services/taskMoveService";
+import { resolveTaskSchedule, shiftTaskSchedule } from "../services/taskScheduleService";
+import { getTaskStatusesForProjects, resolveTaskStatus } from "../services/taskStatusService";
+import { trashTask } from "../services/trashService";
+import { addTaskWatchers } from "../services/watcherService";
+import type { BulkTaskAction, BulkTaskRequest } from "../types/database";
+
+const BULK_TASK_ACTIONS: BulkTaskAction[] = [
+  "set_status",
+  "set_priority",
+  "set_due_date",
+  "add_assignee",
+  "remove_assignee",
+  "delete",
+  "move",
+];
+const MAX_BULK_TASKS = 200;
+
+// Outcome of the action for one task
+interface BulkTaskResult {
+  task_id: number;
+  success: boolean;
+  message?: string;
+  [detail: string]: unknown;
+}
+
+/**
+ * Apply the bulk action to one task the caller has access to
+ */
+const applyBulkAction = async (
+  task: any,
+  body: BulkTaskRequest,
+  userId: number,
+  statusesByProject: Map<string, any[]>,
+  alreadyMoved: Set<number>
+): Promise<BulkTaskResult> => {
+  const taskId: number = task.task_id;
+
+  switch (body.action) {
+    case "set_status": {
+      const statuses = statusesByProject.get(task.project_uuid) || [];
+      const status = resolveTaskStatus(statuses, body.status);
+
+      if (!status) {
+        return {
+          task_id: taskId,
+          success: false,
+          message: `Invalid status. Allowed: ${statuses.map(s => s.name).join(", ")}`
+        };
+      }
+
+      if (status.name === task.status) {
+        return { task_id: taskId, success: true };
+      }
+
+      // A task cannot be completed while any of its blockers are still open
+      if (status.category === "done") {
+        const { data: blockers } = await supabase
+          .from("task_dependencies")
+          .select("tasks:blocked_by_task_id(task_id, title, status, status_category)")
+          .eq("task_id", taskId)
+          .is("tasks.deleted_at", null);
+
+        const openBlockers = (blockers || [])
+          .map(d => (d as any).tasks)
+          .filter((t: any) => t && t.status_category !== "done");
+
+        if (openBlockers.length > 0) {
+          return {
+            task_id: taskId,
+            success: false,
+            message: "Task is blocked by open tasks and cannot be completed",
+            blockers: openBlockers,
+          };
+        }
+      }
+
+      const boardRank = await getEndOfColumnRank(task.project_uuid, status.name);
+      const { error } = await supabase
+        .from("tasks")
+        .update({ status: status.name, status_category: status.category, board_rank: boardRank })
+        .eq("task_id", taskId);
+
+      if (error) throw error;
+
+      await recordTaskActivity(taskId, userId, [
+        { field: "status", old_value: task.status, new_value: status.name },
+      ]);
+
+      await notifyTaskWatchers({
+        type: "task_status_changed",
+        taskId,
+        actorId: userId,
+        data: { from: task.status, to: status.name },
+      });
+
+      // Completing a recurring task schedules its next occurrence
+      if (status.category === "done" && task.status_category !== "done") {
+        const nextOccurrence = await createNextOccurrence(taskId, userId);
+        if (nextOccurrence) {
+          return { task_id: taskId, success: true, next_occurrence_id: nextOccurrence.task_id };
+        }
+      }
+
+      return { task_id: taskId, success: true };
+    }
+
+    case "set_priority":
+    case "set_due_date": {
+      let update: Record<string, unknown> = { priority: body.priority };
+
+      if (body.action === "set_due_date") {
+        const { schedule, error: scheduleError } = resolveTaskSchedule(
+          { all_day: true, due_date: body.due_date || null },
+          task
+        );
+        if (scheduleError) {
+          return { task_id: taskId, success: false, message: scheduleError };
+        }
+        // Timed tasks keep their time of day on the new date
+        update = task.is_all_day === false && body.due_date
+          ? shiftTaskSchedule(task, body.due_date)
+          : schedule!;
+      }
+
+      const { error } = await supabase
+        .from("tasks")
+        .update(update)
+        .eq("task_id", taskId);
+
+      if (error) throw error;
+
+      const changes = diffTaskFields(task, update);
+      await recordTaskActivity(taskId, userId, changes);
+
+      if (changes.some(c => c.field === "due_date" || c.field === "due_at")) {
+        await notifyTaskWatchers({
+          type: "task_due_date_changed",
+          taskId,
+          actorId: userId,
+          data: { from: task.due_at ?? task.due_date, to: update.due_at ?? update.due_date },
+        });
+      }
+
+      return { task_id: taskId, success: true };
+    }
+
+    case "add_assignee": {
+      const { data: existing } = await supabase
+        .from("task_assignments")
+        .select("task_id")
+        .eq("task_id", taskId)
+        .eq("user_id", body.user_id!)
+        .maybeSingle();
+
+      if (existing) {
+        return { task_id: taskId, success: true, message: "User is already assigned to this task" };
+      }
+
+      const { error } = await supabase
+        .from("task_assignments")
+        .insert({ task_id: taskId, user_id: body.user_id });
+
+      if (error) throw error;
+
+      await addTaskWatchers(taskId, [body.user_id]);
+      await recordAssigneeChange(taskId, userId, { added: body.user_id });
+      return { task_id: taskId, success: true };
+    }
+
+    case "remove_assignee": {
+      const { data: removed, error } = await supabase
+        .from("task_assignments")
+        .delete()
+        .eq("task_id", taskId)
+        .eq("user_id", body.user_id!)
+        .select("user_id");
+
+      if (error) throw error;
+
+      if (removed && removed.length > 0) {
+        await recordAssigneeChange(taskId, userId, { removed: body.user_id });
+      }
+      return { task_id: taskId, success: true };
+    }
+
+    case "delete": {
+      // Subtasks go to the trash with their parent; a subtask trashed that way is already gone
+      const trashed = await trashTask(taskId, userId);
+      return { task_id: taskId, success: true, deleted_task_ids: trashed.taskIds };
+    }
+
+    case "move": {
+      if (alreadyMoved.has(taskId)) {
+        return { task_id: taskId, success: true, message: "Moved with its parent task" };
+      }
+
+      if (task.project_uuid === body.project_uuid) {
+        return { task_id: taskId, success: true, message: "Task is already in this project" };
+      }
+
+      const moved = await moveTaskToProject(taskId, body.project_uuid!);
+      moved.movedTaskIds.forEach(id => alreadyMoved.add(id));
+
+      return {
+        task_id: taskId,
+        success: true,
+        moved_task_ids: moved.movedTaskIds,
+        dropped_assignees: moved.droppedAssignees,
+        dropped_labels: moved.droppedLabels,
+        dropped_custom_fields: moved.droppedCustomFields,
+      };
+    }
+  }
+};
+
+/**
+ * Apply one action to many tasks
+ * Each task is checked and updated on its own; the response reports per-task
+ * success or failure instead of failing the whole request.
+ */
+export const bulkUpdateTasks = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const body = req.body as BulkTaskRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!Array.isArray(body.task_ids) || body.task_ids.length === 0) {
+    return res.status(400).json({ success: false, message: "task_ids must be a non-empty array" });
+  }
+
+  if (body.task_ids.length > MAX_BULK_TASKS) {
+    return res.status(400).json({
+      success: false,
+      message: `At most ${MAX_BULK_TASKS} tasks can be changed at once`
+    });
+  }
+
+  const taskIds = Array.from(new Set(body.task_ids.map(Number)));
+  if (taskIds.some(id => !Number.isInteger(id))) {
+    return res.status(400).json({ success: false, message: "task_ids must contain task IDs" });
+  }
+
+  if (!BULK_TASK_ACTIONS.includes(body.action)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid action. Allowed: ${BULK_TASK_ACTIONS.join(", ")}`
+    });
+  }
+
+  if (body.action === "set_status" && !body.status) {
+    return res.status(400).json({ success: false, message: "status is required for set_status" });
+  }
+
+  if (body.action === "set_priority" && !body.priority) {
+    return res.status(400).json({ success: false, message: "priority is required for set_priority" });
+  }
+
+  if (body.action === "set_due_date" && body.due_date === undefined) {
+    return res.status(400).json({ success: false, message: "due_date is required for set_due_date (null clears it)" });
+  }
+
+  if ((body.action === "add_assignee" || body.action === "remove_assignee") && !body.user_id) {
+    return res.status(400).json({ success: false, message: `user_id is required for ${body.action}` });
+  }
+
+  if (body.action === "move") {
+    if (!body.project_uuid) {
+      return res.status(400).json({ success: false, message: "project_uuid is required for move" });
+    }
+
+    // Moving needs edit rights in both projects
+    if (!(await canEditProject(body.project_uuid, userId))) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. You need edit rights in the target project."
+      });
+    }
+  }
+
+  const { data: tasks, error } = await supabase
+    .from("tasks")
+    .select(`
+      task_id,
+      project_uuid,
+      status,
+      status_category,
+      priority,
+      start_date,
+      due_date,
+      start_at,
+      due_at,
+      is_all_day,
+      time_zone,
+      parent_task_id,
+      projects:project_uuid(owner_id, project_members!inner(user_id))
+    `)
+    .in("task_id", taskIds)
+    .is("deleted_at", null);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const tasksById = new Map<number, any>();
+  tasks?.forEach(task => tasksById.set(task.task_id, task));
+
+  const statusesByProject = body.action === "set_status"
+    ? await getTaskStatusesForProjects(Array.from(new Set((tasks || []).map(t => t.project_uuid))))
+    : new Map();
+
+  // Parents first, so subtasks moved along with their parent aren't moved twice
+  const orderedIds = [...taskIds].sort((a, b) =>
+    Number(Boolean(tasksById.get(a)?.parent_task_id)) - Number(Boolean(tasksById.get(b)?.parent_task_id))
+  );
+  const alreadyMoved = new Set<number>();
+  const editableProjects = new Map<string, boolean>();
+  const resultsById = new Map<number, BulkTaskResult>();
+
+  for (const taskId of orderedIds) {
+    const task = tasksById.get(taskId);
+
+    if (!task) {
+      resultsById.set(taskId, { task_id: taskId, success: false, message: "Task not found" });
+      continue;
+    }
+
+    const project = task.projects;
+    const isOwner = project?.owner_id === userId;
+    const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+    if (!isOwner && !isMember) {
+      resultsById.set(taskId, {
+        task_id: taskId,
+        success: false,
+        message: "Access denied. You are not a member of this project."
+      });
+      continue;
+    }
+
+    if (body.action === "move") {
+      if (!editableProjects.has(task.project_uuid)) {
+        editableProjects.set(task.project_uuid, await canEditProject(task.project_uuid, userId));
+      }
+      if (!editableProjects.get(task.project_uuid)) {
+        resultsById.set(taskId, {
+          task_id: taskId,
+          success: false,
+          message: "Access denied. You need edit rights in this task's project."
+        });
+        continue;
+      }
+    }
+
+    try {
+      resultsById.set(taskId, await applyBulkAction(task, body, userId, statusesByProject, alreadyMoved));
+    } catch (actionError: any) {
+      console.error(`Bulk ${body.action} failed for task ${taskId}:`, actionError);
+      resultsById.set(taskId, {
+        task_id: taskId,
+        success: false,
+        message: actionError?.message || "Update failed"
+      });
+    }
+  }
+
+  const results = taskIds.map(id => resultsById.get(id)!);
+  const succeeded = results.filter(r => r.success).length;
+
+  return res.json({
+    success: true,
+    action: body.action,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  });
+};
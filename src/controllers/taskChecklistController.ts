@@ -0,0 +1,255 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import type {
+  CreateChecklistItemRequest,
+  TaskChecklistItem,
+  UpdateChecklistItemRequest,
+} from "../types/database";
+
+/**
+ * List checklist items of a task
+ */
+export const listChecklistItems = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("task_checklist_items")
+    .select("*")
+    .eq("task_id", taskId)
+    .order("position", { ascending: true })
+    .order("item_id", { ascending: true });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, items: data || [] });
+};
+
+/**
+ * Add a checklist item to a task
+ * Items are appended to the end of the list unless a position is given
+ */
+export const createChecklistItem = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const body = req.body as CreateChecklistItemRequest;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const content = typeof body.content === "string" ? body.content.trim() : "";
+  if (!content) {
+    return res.status(400).json({ success: false, message: "content is required" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  let position = body.position;
+  if (position === undefined) {
+    const { data: last } = await supabase
+      .from("task_checklist_items")
+      .select("position")
+      .eq("task_id", taskId)
+      .order("position", { ascending: false })
+      .limit(1);
+
+    position = last && last.length > 0 ? last[0].position + 1 : 0;
+  }
+
+  const { data, error } = await supabase
+    .from("task_checklist_items")
+    .insert({ task_id: taskId, content, position })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, item: data });
+};
+
+/**
+ * Update a checklist item (rename, tick/untick, reorder)
+ */
+export const updateChecklistItem = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const itemId = Number(req.params.itemId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateChecklistItemRequest;
+
+  if (isNaN(taskId) || isNaN(itemId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID or item ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const updateData: Partial<TaskChecklistItem> = {};
+  if (body.content !== undefined) {
+    const content = String(body.content).trim();
+    if (!content) {
+      return res.status(400).json({ success: false, message: "content cannot be empty" });
+    }
+    updateData.content = content;
+  }
+  if (body.position !== undefined) updateData.position = body.position;
+  if (body.is_completed !== undefined) {
+    updateData.is_completed = Boolean(body.is_completed);
+    updateData.completed_by = body.is_completed ? userId : null;
+    updateData.completed_at = body.is_completed ? new Date().toISOString() : null;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  const { data, error } = await supabase
+    .from("task_checklist_items")
+    .update(updateData)
+    .eq("item_id", itemId)
+    .eq("task_id", taskId)
+    .select()
+    .single();
+
+  if (error || !data) {
+    return res.status(404).json({ success: false, message: "Checklist item not found" });
+  }
+
+  return res.json({ success: true, item: data });
+};
+
+/**
+ * Delete a checklist item
+ */
+export const deleteChecklistItem = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const itemId = Number(req.params.itemId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId) || isNaN(itemId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID or item ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { error } = await supabase
+    .from("task_checklist_items")
+    .delete()
+    .eq("item_id", itemId)
+    .eq("task_id", taskId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Checklist item deleted successfully" });
+};
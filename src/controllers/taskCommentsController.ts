@@ -0,0 +1,375 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { syncMentions } from "../services/mentionService";
+import { notifyTaskWatchers } from "../services/notificationService";
+import type { CreateTaskCommentRequest, UpdateTaskCommentRequest } from "../types/database";
+
+const COMMENT_SELECT = `
+  comment_id,
+  task_id,
+  parent_comment_id,
+  author_id,
+  body,
+  edited_at,
+  created_at,
+  updated_at,
+  users:author_id(name, email, avatar_url),
+  task_mentions(mentioned_user_id, users:mentioned_user_id(name, email))
+`;
+
+const formatComment = (comment: any) => ({
+  comment_id: comment.comment_id,
+  task_id: comment.task_id,
+  parent_comment_id: comment.parent_comment_id,
+  author_id: comment.author_id,
+  body: comment.body,
+  edited_at: comment.edited_at,
+  created_at: comment.created_at,
+  updated_at: comment.updated_at,
+  author: comment.users || null,
+  mentions: (comment.task_mentions || []).map((m: any) => ({
+    user_id: m.mentioned_user_id,
+    name: m.users?.name,
+    email: m.users?.email,
+  })),
+});
+
+// Mentions are stored after the comment row, so re-read them for the response
+const getCommentMentions = async (commentId: number) => {
+  const { data } = await supabase
+    .from("task_mentions")
+    .select("mentioned_user_id, users:mentioned_user_id(name, email)")
+    .eq("comment_id", commentId);
+
+  return data || [];
+};
+
+/**
+ * List comments on a task as threads
+ * Top-level comments are returned oldest first, each with its replies nested
+ */
+export const listTaskComments = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("task_comments")
+    .select(COMMENT_SELECT)
+    .eq("task_id", taskId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  // Build threads in memory: every comment gets a replies array, then
+  // replies are attached to their parent
+  const commentsById = new Map<number, any>();
+  (data || []).forEach(comment => {
+    commentsById.set(comment.comment_id, { ...formatComment(comment), replies: [] });
+  });
+
+  const threads: any[] = [];
+  commentsById.forEach(comment => {
+    const parent = comment.parent_comment_id ? commentsById.get(comment.parent_comment_id) : undefined;
+    if (parent) {
+      parent.replies.push(comment);
+    } else {
+      threads.push(comment);
+    }
+  });
+
+  return res.json({
+    success: true,
+    comments: threads,
+    total: commentsById.size,
+  });
+};
+
+/**
+ * Create a comment on a task
+ * Pass parent_comment_id to reply to an existing comment
+ */
+export const createTaskComment = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const body = req.body as CreateTaskCommentRequest;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const text = typeof body.body === "string" ? body.body.trim() : "";
+  if (!text) {
+    return res.status(400).json({ success: false, message: "body is required" });
+  }
+
+  // Replies can come from the route (/comments/:commentId/replies) or the body
+  const parentCommentId = req.params.commentId !== undefined
+    ? Number(req.params.commentId)
+    : body.parent_comment_id;
+
+  if (parentCommentId !== undefined && parentCommentId !== null && isNaN(Number(parentCommentId))) {
+    return res.status(400).json({ success: false, message: "Invalid parent comment ID" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  // A reply must point at a comment on the same task
+  if (parentCommentId) {
+    const { data: parent } = await supabase
+      .from("task_comments")
+      .select("comment_id")
+      .eq("comment_id", parentCommentId)
+      .eq("task_id", taskId)
+      .single();
+
+    if (!parent) {
+      return res.status(404).json({ success: false, message: "Parent comment not found" });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("task_comments")
+    .insert({
+      task_id: taskId,
+      parent_comment_id: parentCommentId || null,
+      author_id: userId,
+      body: text,
+    })
+    .select(COMMENT_SELECT)
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  // Mentioned users get a mention notification instead of the generic one
+  const mentionedIds = await syncMentions({ taskId, commentId: data.comment_id, text, actorId: userId });
+
+  await notifyTaskWatchers({
+    type: "task_commented",
+    taskId,
+    actorId: userId,
+    data: { comment_id: data.comment_id, excerpt: text.slice(0, 200) },
+  }, mentionedIds);
+
+  return res.status(201).json({
+    success: true,
+    comment: formatComment({
+      ...data,
+      task_mentions: await getCommentMentions(data.comment_id),
+    }),
+  });
+};
+
+/**
+ * Edit a comment
+ * Only the author can edit their comment
+ */
+export const updateTaskComment = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const commentId = Number(req.params.commentId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateTaskCommentRequest;
+
+  if (isNaN(taskId) || isNaN(commentId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID or comment ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const text = typeof body.body === "string" ? body.body.trim() : "";
+  if (!text) {
+    return res.status(400).json({ success: false, message: "body is required" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: existing } = await supabase
+    .from("task_comments")
+    .select("comment_id, author_id")
+    .eq("comment_id", commentId)
+    .eq("task_id", taskId)
+    .single();
+
+  if (!existing) {
+    return res.status(404).json({ success: false, message: "Comment not found" });
+  }
+
+  if (existing.author_id !== userId) {
+    return res.status(403).json({
+      success: false,
+      message: "You can only edit your own comments"
+    });
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from("task_comments")
+    .update({ body: text, edited_at: now, updated_at: now })
+    .eq("comment_id", commentId)
+    .select(COMMENT_SELECT)
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  await syncMentions({ taskId, commentId, text, actorId: userId });
+
+  return res.json({
+    success: true,
+    comment: formatComment({ ...data, task_mentions: await getCommentMentions(commentId) }),
+  });
+};
+
+/**
+ * Delete a comment
+ * The author or the project owner can delete a comment; replies are deleted with it
+ */
+export const deleteTaskComment = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const commentId = Number(req.params.commentId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId) || isNaN(commentId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID or comment ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: existing } = await supabase
+    .from("task_comments")
+    .select("comment_id, author_id")
+    .eq("comment_id", commentId)
+    .eq("task_id", taskId)
+    .single();
+
+  if (!existing) {
+    return res.status(404).json({ success: false, message: "Comment not found" });
+  }
+
+  if (existing.author_id !== userId && !isOwner) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. Only the author or project owner can delete this comment."
+    });
+  }
+
+  // Replies are deleted automatically via CASCADE
+  const { error } = await supabase
+    .from("task_comments")
+    .delete()
+    .eq("comment_id", commentId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Comment deleted successfully" });
+};
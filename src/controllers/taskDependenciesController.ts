@@ -0,0 +1,262 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import type { CreateTaskDependencyRequest } from "../types/database";
+
+/**
+ * Walk the "blocked by" graph starting at startTaskId and report whether
+ * targetTaskId is reachable. Adding "target blocked by start" would close a
+ * cycle exactly when start already (transitively) waits on target.
+ */
+const isReachable = async (startTaskId: number, targetTaskId: number): Promise<boolean> => {
+  const visited = new Set<number>([startTaskId]);
+  let frontier = [startTaskId];
+
+  while (frontier.length > 0) {
+    // One query per level of the graph
+    const { data: edges, error } = await supabase
+      .from("task_dependencies")
+      .select("task_id, blocked_by_task_id")
+      .in("task_id", frontier);
+
+    if (error) {
+      throw error;
+    }
+
+    const next: number[] = [];
+    for (const edge of edges || []) {
+      if (edge.blocked_by_task_id === targetTaskId) {
+        return true;
+      }
+      if (!visited.has(edge.blocked_by_task_id)) {
+        visited.add(edge.blocked_by_task_id);
+        next.push(edge.blocked_by_task_id);
+      }
+    }
+    frontier = next;
+  }
+
+  return false;
+};
+
+/**
+ * List blockers (tasks this task waits on) and dependents (tasks waiting on this one)
+ */
+export const listTaskDependencies = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const [blockersResult, dependentsResult] = await Promise.all([
+    supabase
+      .from("task_dependencies")
+      .select("created_at, tasks:blocked_by_task_id(task_id, project_uuid, title, status, status_category, priority, due_date)")
+      .eq("task_id", taskId)
+      .is("tasks.deleted_at", null),
+    supabase
+      .from("task_dependencies")
+      .select("created_at, tasks:task_id(task_id, project_uuid, title, status, status_category, priority, due_date)")
+      .eq("blocked_by_task_id", taskId)
+      .is("tasks.deleted_at", null),
+  ]);
+
+  if (blockersResult.error || dependentsResult.error) {
+    return res.status(400).json({
+      success: false,
+      error: blockersResult.error || dependentsResult.error,
+    });
+  }
+
+  return res.json({
+    success: true,
+    // Trashed tasks come back as null
+    blockers: (blockersResult.data || [])
+      .filter(d => (d as any).tasks)
+      .map(d => ({ ...(d as any).tasks, linked_at: d.created_at })),
+    dependents: (dependentsResult.data || [])
+      .filter(d => (d as any).tasks)
+      .map(d => ({ ...(d as any).tasks, linked_at: d.created_at })),
+  });
+};
+
+/**
+ * Add a dependency
+ * Body takes either blocked_by_task_id (this task waits on it) or
+ * blocks_task_id (that task waits on this one). Cycles are refused.
+ */
+export const addTaskDependency = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const body = req.body as CreateTaskDependencyRequest;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const hasBlockedBy = body.blocked_by_task_id !== undefined && body.blocked_by_task_id !== null;
+  const hasBlocks = body.blocks_task_id !== undefined && body.blocks_task_id !== null;
+
+  if (hasBlockedBy === hasBlocks) {
+    return res.status(400).json({
+      success: false,
+      message: "Provide exactly one of blocked_by_task_id or blocks_task_id"
+    });
+  }
+
+  const otherTaskId = Number(hasBlockedBy ? body.blocked_by_task_id : body.blocks_task_id);
+
+  if (isNaN(otherTaskId)) {
+    return res.status(400).json({ success: false, message: "Invalid related task ID" });
+  }
+
+  if (otherTaskId === taskId) {
+    return res.status(400).json({ success: false, message: "A task cannot depend on itself" });
+  }
+
+  // Verify user has access to both tasks' projects
+  const { data: tasks } = await supabase
+    .from("tasks")
+    .select("task_id, project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .in("task_id", [taskId, otherTaskId])
+    .is("deleted_at", null);
+
+  if (!tasks || tasks.length !== 2) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const hasAccessToAll = tasks.every(t => {
+    const project = (t as any).projects;
+    const isOwner = project?.owner_id === userId;
+    const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+    return isOwner || isMember;
+  });
+
+  if (!hasAccessToAll) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const blockedTaskId = hasBlockedBy ? taskId : otherTaskId;
+  const blockerTaskId = hasBlockedBy ? otherTaskId : taskId;
+
+  const { data: existing } = await supabase
+    .from("task_dependencies")
+    .select("task_id")
+    .eq("task_id", blockedTaskId)
+    .eq("blocked_by_task_id", blockerTaskId)
+    .maybeSingle();
+
+  if (existing) {
+    return res.status(409).json({ success: false, message: "Dependency already exists" });
+  }
+
+  if (await isReachable(blockerTaskId, blockedTaskId)) {
+    return res.status(409).json({
+      success: false,
+      message: "This dependency would create a cycle"
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("task_dependencies")
+    .insert({
+      task_id: blockedTaskId,
+      blocked_by_task_id: blockerTaskId,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, dependency: data });
+};
+
+/**
+ * Remove a dependency: the task is no longer blocked by :blockerTaskId
+ */
+export const removeTaskDependency = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const blockerTaskId = Number(req.params.blockerTaskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId) || isNaN(blockerTaskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { error } = await supabase
+    .from("task_dependencies")
+    .delete()
+    .eq("task_id", taskId)
+    .eq("blocked_by_task_id", blockerTaskId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Dependency removed" });
+};
@@ -0,0 +1,284 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { canEditProject } from "../services/taskMoveService";
+import {
+  commitTaskImport as commitImportedTasks,
+  loadImportContext,
+  previewTaskImport,
+  readCsvTable,
+  suggestMapping,
+  validateMapping,
+} from "../services/taskImportService";
+import type { ImportContext } from "../services/taskImportService";
+import type {
+  CreateTaskImportRequest,
+  TaskImport,
+  TaskImportMapping,
+  UpdateTaskImportRequest,
+} from "../types/database";
+
+// The staged import without its raw rows
+const formatImport = ({ rows, ...taskImport }: TaskImport) => ({
+  ...taskImport,
+  row_count: rows.length,
+});
+
+// Dry-run result of every row, with totals
+const buildPreview = async (taskImport: TaskImport, context: ImportContext) => {
+  const rows = await previewTaskImport(taskImport, context);
+  const invalidRows = rows.filter(r => r.errors.length > 0).length;
+
+  return {
+    total_rows: rows.length,
+    valid_rows: rows.length - invalidRows,
+    invalid_rows: invalidRows,
+    rows,
+  };
+};
+
+/**
+ * Stage a CSV of tasks for import and return a dry-run preview
+ * The file comes as a multipart upload (field "file") or as `csv` text in a JSON body.
+ * Without a mapping, columns are mapped from their names.
+ */
+export const createTaskImport = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as CreateTaskImportRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const csv = req.file ? req.file.buffer.toString("utf8") : body.csv;
+  if (typeof csv !== "string" || csv.trim() === "") {
+    return res.status(400).json({
+      success: false,
+      message: "A CSV file is required (multipart field \"file\" or csv in the body)"
+    });
+  }
+
+  let mapping: unknown = body.mapping;
+  if (typeof mapping === "string") {
+    try {
+      mapping = JSON.parse(mapping);
+    } catch {
+      return res.status(400).json({ success: false, message: "mapping must be valid JSON" });
+    }
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { headers, rows, error: csvError } = readCsvTable(csv);
+  if (csvError) {
+    return res.status(400).json({ success: false, message: csvError });
+  }
+
+  const context = await loadImportContext(projectUuid);
+
+  if (mapping === undefined) {
+    mapping = suggestMapping(headers!, context.customFields);
+  } else {
+    const mappingError = validateMapping(mapping, headers!, context.customFields);
+    if (mappingError) {
+      return res.status(400).json({ success: false, message: mappingError, headers });
+    }
+  }
+
+  const { data: taskImport, error } = await supabase
+    .from("task_imports")
+    .insert({
+      project_uuid: projectUuid,
+      file_name: req.file?.originalname || body.file_name || null,
+      headers,
+      rows,
+      mapping,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error || !taskImport) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({
+    success: true,
+    import: formatImport(taskImport),
+    preview: await buildPreview(taskImport, context),
+  });
+};
+
+/**
+ * Get a staged import with a fresh preview
+ * Rows are checked again, so fixes made in the project since (a new label or member) count.
+ */
+export const getTaskImport = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const importId = Number(req.params.importId);
+  const userId = req.user?.userId;
+
+  if (isNaN(importId)) {
+    return res.status(400).json({ success: false, message: "Invalid import ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: taskImport } = await supabase
+    .from("task_imports")
+    .select("*")
+    .eq("import_id", importId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!taskImport) {
+    return res.status(404).json({ success: false, message: "Import not found" });
+  }
+
+  if (taskImport.status === "committed") {
+    return res.json({ success: true, import: formatImport(taskImport) });
+  }
+
+  const context = await loadImportContext(projectUuid);
+
+  return res.json({
+    success: true,
+    import: formatImport(taskImport),
+    preview: await buildPreview(taskImport, context),
+  });
+};
+
+/**
+ * Change the column mapping of a staged import and return the new preview
+ */
+export const updateTaskImportMapping = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const importId = Number(req.params.importId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateTaskImportRequest;
+
+  if (isNaN(importId)) {
+    return res.status(400).json({ success: false, message: "Invalid import ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: taskImport } = await supabase
+    .from("task_imports")
+    .select("*")
+    .eq("import_id", importId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!taskImport) {
+    return res.status(404).json({ success: false, message: "Import not found" });
+  }
+
+  if (taskImport.status === "committed") {
+    return res.status(409).json({ success: false, message: "This import has already been committed" });
+  }
+
+  const context = await loadImportContext(projectUuid);
+
+  const mappingError = validateMapping(body.mapping, taskImport.headers, context.customFields);
+  if (mappingError) {
+    return res.status(400).json({ success: false, message: mappingError, headers: taskImport.headers });
+  }
+
+  const { data, error } = await supabase
+    .from("task_imports")
+    .update({ mapping: body.mapping as TaskImportMapping })
+    .eq("import_id", importId)
+    .eq("status", "previewed")
+    .select()
+    .single();
+
+  if (error || !data) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({
+    success: true,
+    import: formatImport(data),
+    preview: await buildPreview(data, context),
+  });
+};
+
+/**
+ * Create the valid rows of a staged import as tasks in one batch
+ * Rows with errors are skipped and returned with their errors.
+ */
+export const commitTaskImport = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const importId = Number(req.params.importId);
+  const userId = req.user?.userId;
+
+  if (isNaN(importId)) {
+    return res.status(400).json({ success: false, message: "Invalid import ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!(await canEditProject(projectUuid, userId))) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in this project."
+    });
+  }
+
+  const { data: taskImport } = await supabase
+    .from("task_imports")
+    .select("*")
+    .eq("import_id", importId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  if (!taskImport) {
+    return res.status(404).json({ success: false, message: "Import not found" });
+  }
+
+  const context = await loadImportContext(projectUuid);
+
+  try {
+    const result = await commitImportedTasks(taskImport, context, userId);
+
+    if (!result) {
+      return res.status(409).json({ success: false, message: "This import has already been committed" });
+    }
+
+    return res.json({
+      success: true,
+      created_count: result.taskIds.length,
+      task_ids: result.taskIds,
+      skipped_count: result.skipped.length,
+      skipped: result.skipped,
+    });
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+};
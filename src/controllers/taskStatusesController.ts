@@ -0,0 +1,227 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { getProjectTaskStatuses } from "../services/taskStatusService";
+import type {
+  TaskStatusCategory,
+  TaskStatusDefinition,
+  UpdateProjectTaskStatusesRequest,
+} from "../types/database";
+
+const STATUS_CATEGORIES: TaskStatusCategory[] = ["not_started", "active", "done"];
+
+/**
+ * List the task statuses of a project (custom set, or the default workflow)
+ */
+export const listProjectTaskStatuses = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: customStatuses, error } = await supabase
+    .from("project_task_statuses")
+    .select("status_id")
+    .eq("project_uuid", projectUuid)
+    .limit(1);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const statuses = await getProjectTaskStatuses(projectUuid);
+
+  return res.json({
+    success: true,
+    statuses,
+    isDefault: !customStatuses || customStatuses.length === 0,
+  });
+};
+
+/**
+ * Replace the task status set of a project
+ * Only project owners and admins can change the workflow. Tasks using a status
+ * that is removed must be mapped onto a new status through `remap`.
+ */
+export const updateProjectTaskStatuses = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as UpdateProjectTaskStatusesRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!Array.isArray(body.statuses) || body.statuses.length === 0) {
+    return res.status(400).json({ success: false, message: "statuses array is required" });
+  }
+
+  // Validate the new set
+  const seenNames = new Set<string>();
+  const statuses: TaskStatusDefinition[] = [];
+  for (const status of body.statuses) {
+    const name = typeof status?.name === "string" ? status.name.trim() : "";
+    if (!name) {
+      return res.status(400).json({ success: false, message: "Every status needs a name" });
+    }
+    if (!STATUS_CATEGORIES.includes(status.category)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid category for "${name}". Allowed: ${STATUS_CATEGORIES.join(", ")}`
+      });
+    }
+    if (seenNames.has(name.toLowerCase())) {
+      return res.status(400).json({ success: false, message: `Duplicate status "${name}"` });
+    }
+    seenNames.add(name.toLowerCase());
+    statuses.push({ name, category: status.category, color: status.color || null });
+  }
+
+  if (!statuses.some(s => s.category === "not_started") || !statuses.some(s => s.category === "done")) {
+    return res.status(400).json({
+      success: false,
+      message: "A workflow needs at least one not_started and one done status"
+    });
+  }
+
+  // Verify user has permission (owner or admin)
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  if (project.owner_id !== userId) {
+    const { data: member } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_uuid", projectUuid)
+      .eq("user_id", userId)
+      .single();
+
+    if (!member || (member.role !== "admin" && member.role !== "owner")) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. Only project owners and admins can change task statuses."
+      });
+    }
+  }
+
+  // Every status currently used by a task must survive or be remapped
+  const { data: tasks, error: tasksError } = await supabase
+    .from("tasks")
+    .select("task_id, status")
+    .eq("project_uuid", projectUuid);
+
+  if (tasksError) {
+    return res.status(400).json({ success: false, error: tasksError });
+  }
+
+  const remap = body.remap || {};
+  const findStatus = (name: string) => statuses.find(s => s.name.toLowerCase() === name.toLowerCase());
+  const usedStatuses = Array.from(new Set((tasks || []).map(t => t.status as string)));
+  const targets = new Map<string, { name: string; category: TaskStatusCategory }>();
+  const unmapped: string[] = [];
+
+  for (const used of usedStatuses) {
+    const target = findStatus(remap[used] ?? used);
+    if (target) {
+      targets.set(used, target);
+    } else {
+      unmapped.push(used);
+    }
+  }
+
+  if (unmapped.length > 0) {
+    return res.status(409).json({
+      success: false,
+      message: "Some removed statuses are still used by tasks. Map them with `remap`.",
+      unmappedStatuses: unmapped,
+    });
+  }
+
+  // Write the new set before removing anything, so a failure midway never leaves
+  // the project without statuses: upsert, move tasks over, then drop the rest
+  const { data: kept, error: upsertError } = await supabase
+    .from("project_task_statuses")
+    .upsert(
+      statuses.map((s, index) => ({ ...s, project_uuid: projectUuid, position: index })),
+      { onConflict: "project_uuid,name" }
+    )
+    .select("status_id, name, category, color, position");
+
+  if (upsertError || !kept) {
+    return res.status(400).json({ success: false, error: upsertError });
+  }
+
+  // Move existing tasks onto their new status (name and category)
+  // Tasks are grouped by their status before any update, so chained remaps
+  // ({ A: "B", B: "C" }) move each task once
+  const taskIdsByStatus = new Map<string, number[]>();
+  (tasks || []).forEach(t => {
+    if (!taskIdsByStatus.has(t.status)) {
+      taskIdsByStatus.set(t.status, []);
+    }
+    taskIdsByStatus.get(t.status)!.push(t.task_id);
+  });
+
+  let tasksUpdated = 0;
+  for (const [oldName, target] of targets) {
+    const { error: updateError } = await supabase
+      .from("tasks")
+      .update({ status: target.name, status_category: target.category })
+      .in("task_id", taskIdsByStatus.get(oldName) || []);
+
+    if (updateError) {
+      return res.status(400).json({ success: false, error: updateError });
+    }
+
+    if (oldName !== target.name) {
+      tasksUpdated += taskIdsByStatus.get(oldName)?.length || 0;
+    }
+  }
+
+  const { error: deleteError } = await supabase
+    .from("project_task_statuses")
+    .delete()
+    .eq("project_uuid", projectUuid)
+    .not("status_id", "in", `(${kept.map(s => s.status_id).join(",")})`);
+
+  if (deleteError) {
+    return res.status(400).json({ success: false, error: deleteError });
+  }
+
+  const savedStatuses = kept
+    .sort((x, y) => x.position - y.position)
+    .map(({ status_id, ...status }) => status);
+
+  return res.json({ success: true, statuses: savedStatuses, tasksUpdated });
+};
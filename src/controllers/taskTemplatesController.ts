@@ -0,0 +1,558 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import { recordTaskCreated } from "../services/activityService";
+import { getEndOfColumnRank } from "../services/boardRankService";
+import { escapeLikePattern, resolveCustomFieldValues, saveCustomFieldValues } from "../services/customFieldService";
+import { DEFAULT_TIME_ZONE, getLocalDate, resolveTaskSchedule } from "../services/taskScheduleService";
+import { getProjectTaskStatuses, resolveTaskStatus } from "../services/taskStatusService";
+import { syncMentions } from "../services/mentionService";
+import { fillPlaceholders, listPlaceholders } from "../services/taskTemplateService";
+import { addTaskWatchers } from "../services/watcherService";
+import type {
+  CreateTaskFromTemplateRequest,
+  CreateTaskTemplateRequest,
+  TaskTemplate,
+  UpdateTaskTemplateRequest,
+} from "../types/database";
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string" && item.trim() !== "");
+
+const isIdArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => Number.isInteger(item));
+
+const formatTemplate = (template: TaskTemplate) => ({
+  ...template,
+  placeholders: listPlaceholders(template.title, template.description, ...template.checklist),
+});
+
+/**
+ * List the task templates of a project
+ */
+export const listTaskTemplates = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("task_templates")
+    .select("*")
+    .eq("project_uuid", projectUuid)
+    .order("name", { ascending: true });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, templates: (data || []).map(formatTemplate) });
+};
+
+/**
+ * Save a task template
+ * Only project owners and admins can manage templates. With task_id the
+ * template starts as a copy of that task; explicit fields override the copy.
+ */
+export const createTaskTemplate = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+  const body = req.body as CreateTaskTemplateRequest;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name) {
+    return res.status(400).json({ success: false, message: "name is required" });
+  }
+
+  if (body.title !== undefined && typeof body.title !== "string") {
+    return res.status(400).json({ success: false, message: "title must be a string" });
+  }
+
+  if (body.checklist !== undefined && !isStringArray(body.checklist)) {
+    return res.status(400).json({ success: false, message: "checklist must be an array of non-empty strings" });
+  }
+
+  if (body.default_assignee_ids !== undefined && !isIdArray(body.default_assignee_ids)) {
+    return res.status(400).json({ success: false, message: "default_assignee_ids must be an array of user IDs" });
+  }
+
+  // Verify user has permission (owner or admin)
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  if (project.owner_id !== userId) {
+    const { data: member } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_uuid", projectUuid)
+      .eq("user_id", userId)
+      .single();
+
+    if (!member || (member.role !== "admin" && member.role !== "owner")) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. Only project owners and admins can manage task templates."
+      });
+    }
+  }
+
+  // Start from an existing task of this project if one is given
+  let source: Partial<TaskTemplate> = {};
+  if (body.task_id !== undefined) {
+    const { data: task } = await supabase
+      .from("tasks")
+      .select("title, description, priority")
+      .eq("task_id", body.task_id)
+      .eq("project_uuid", projectUuid)
+      .is("deleted_at", null)
+      .single();
+
+    if (!task) {
+      return res.status(404).json({ success: false, message: "Task not found in this project" });
+    }
+
+    const [{ data: checklist }, { data: assignments }] = await Promise.all([
+      supabase
+        .from("task_checklist_items")
+        .select("content")
+        .eq("task_id", body.task_id)
+        .order("position", { ascending: true }),
+      supabase.from("task_assignments").select("user_id").eq("task_id", body.task_id),
+    ]);
+
+    source = {
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      checklist: (checklist || []).map(i => i.content),
+      default_assignee_ids: (assignments || []).map(a => a.user_id),
+    };
+  }
+
+  const title = (body.title ?? source.title ?? "").trim();
+  if (!title) {
+    return res.status(400).json({ success: false, message: "title is required" });
+  }
+
+  // Check if template already exists
+  const { data: existing } = await supabase
+    .from("task_templates")
+    .select("template_id")
+    .eq("project_uuid", projectUuid)
+    .ilike("name", escapeLikePattern(name))
+    .maybeSingle();
+
+  if (existing) {
+    return res.status(409).json({ success: false, message: "A template with this name already exists" });
+  }
+
+  const { data, error } = await supabase
+    .from("task_templates")
+    .insert({
+      project_uuid: projectUuid,
+      name,
+      title,
+      description: body.description ?? source.description ?? null,
+      priority: body.priority ?? source.priority ?? null,
+      checklist: body.checklist ?? source.checklist ?? [],
+      default_assignee_ids: body.default_assignee_ids ?? source.default_assignee_ids ?? [],
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, template: formatTemplate(data) });
+};
+
+/**
+ * Update a task template
+ */
+export const updateTaskTemplate = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const templateId = Number(req.params.templateId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateTaskTemplateRequest;
+
+  if (isNaN(templateId)) {
+    return res.status(400).json({ success: false, message: "Invalid template ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const updateData: Partial<TaskTemplate> = {};
+
+  if (body.name !== undefined) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name) {
+      return res.status(400).json({ success: false, message: "name cannot be empty" });
+    }
+    updateData.name = name;
+  }
+
+  if (body.title !== undefined) {
+    const title = typeof body.title === "string" ? body.title.trim() : "";
+    if (!title) {
+      return res.status(400).json({ success: false, message: "title cannot be empty" });
+    }
+    updateData.title = title;
+  }
+
+  if (body.description !== undefined) updateData.description = body.description || null;
+  if (body.priority !== undefined) updateData.priority = body.priority || null;
+
+  if (body.checklist !== undefined) {
+    if (!isStringArray(body.checklist)) {
+      return res.status(400).json({ success: false, message: "checklist must be an array of non-empty strings" });
+    }
+    updateData.checklist = body.checklist;
+  }
+
+  if (body.default_assignee_ids !== undefined) {
+    if (!isIdArray(body.default_assignee_ids)) {
+      return res.status(400).json({ success: false, message: "default_assignee_ids must be an array of user IDs" });
+    }
+    updateData.default_assignee_ids = body.default_assignee_ids;
+  }
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  // Verify user has permission (owner or admin)
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  if (project.owner_id !== userId) {
+    const { data: member } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_uuid", projectUuid)
+      .eq("user_id", userId)
+      .single();
+
+    if (!member || (member.role !== "admin" && member.role !== "owner")) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. Only project owners and admins can manage task templates."
+      });
+    }
+  }
+
+  if (updateData.name) {
+    const { data: existing } = await supabase
+      .from("task_templates")
+      .select("template_id")
+      .eq("project_uuid", projectUuid)
+      .ilike("name", escapeLikePattern(updateData.name))
+      .neq("template_id", templateId)
+      .maybeSingle();
+
+    if (existing) {
+      return res.status(409).json({ success: false, message: "A template with this name already exists" });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("task_templates")
+    .update({ ...updateData, updated_at: new Date().toISOString() })
+    .eq("template_id", templateId)
+    .eq("project_uuid", projectUuid)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  if (!data) {
+    return res.status(404).json({ success: false, message: "Template not found" });
+  }
+
+  return res.json({ success: true, template: formatTemplate(data) });
+};
+
+/**
+ * Delete a task template
+ * Tasks created from it are not affected
+ */
+export const deleteTaskTemplate = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const templateId = Number(req.params.templateId);
+  const userId = req.user?.userId;
+
+  if (isNaN(templateId)) {
+    return res.status(400).json({ success: false, message: "Invalid template ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has permission (owner or admin)
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  if (project.owner_id !== userId) {
+    const { data: member } = await supabase
+      .from("project_members")
+      .select("role")
+      .eq("project_uuid", projectUuid)
+      .eq("user_id", userId)
+      .single();
+
+    if (!member || (member.role !== "admin" && member.role !== "owner")) {
+      return res.status(403).json({
+        success: false,
+        message: "Access denied. Only project owners and admins can manage task templates."
+      });
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("task_templates")
+    .delete()
+    .eq("template_id", templateId)
+    .eq("project_uuid", projectUuid)
+    .select("template_id");
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, message: "Template not found" });
+  }
+
+  return res.json({ success: true, message: "Template deleted successfully" });
+};
+
+/**
+ * Create a task from a template
+ * Placeholders in the title, description and checklist are filled with
+ * {{date}} (today in the caller's time zone), {{project}} (project name), {{user}} (caller's name) and
+ * any custom values passed in `variables`.
+ */
+export const createTaskFromTemplate = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const templateId = Number(req.params.templateId);
+  const userId = req.user?.userId;
+  const body = (req.body || {}) as CreateTaskFromTemplateRequest;
+
+  if (isNaN(templateId)) {
+    return res.status(400).json({ success: false, message: "Invalid template ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const variables = body.variables || {};
+  if (typeof variables !== "object" || Object.values(variables).some(v => typeof v !== "string")) {
+    return res.status(400).json({ success: false, message: "variables must map placeholder names to strings" });
+  }
+
+  if (body.assigned_user_ids !== undefined && !isIdArray(body.assigned_user_ids)) {
+    return res.status(400).json({ success: false, message: "assigned_user_ids must be an array of user IDs" });
+  }
+
+  const { schedule, error: scheduleError } = resolveTaskSchedule(body);
+  if (scheduleError) {
+    return res.status(400).json({ success: false, message: scheduleError });
+  }
+
+  // Verify user has access to the project
+  const { data: project } = await supabase
+    .from("projects")
+    .select("name, owner_id, project_members!inner(user_id)")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found" });
+  }
+
+  const isOwner = (project as any).owner_id === userId;
+  const isMember = (project as any).project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: template } = await supabase
+    .from("task_templates")
+    .select("*")
+    .eq("template_id", templateId)
+    .eq("project_uuid", projectUuid)
+    .single();
+
+  if (!template) {
+    return res.status(404).json({ success: false, message: "Template not found" });
+  }
+
+  const statuses = await getProjectTaskStatuses(projectUuid);
+  const status = resolveTaskStatus(statuses, body.status);
+
+  if (!status) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid status. Allowed: ${statuses.map(s => s.name).join(", ")}`
+    });
+  }
+
+  const { changes: customFieldChanges, error: customFieldError } = await resolveCustomFieldValues(
+    projectUuid,
+    body.custom_fields,
+    true
+  );
+  if (customFieldError) {
+    return res.status(400).json({ success: false, message: customFieldError });
+  }
+
+  const { data: user } = await supabase
+    .from("users")
+    .select("name, time_zone")
+    .eq("user_id", userId)
+    .single();
+
+  const values: Record<string, string> = {
+    date: getLocalDate(new Date(), user?.time_zone || DEFAULT_TIME_ZONE),
+    project: (project as any).name,
+    user: user?.name || "",
+    ...variables,
+  };
+
+  const { data: task, error } = await supabase
+    .from("tasks")
+    .insert({
+      project_uuid: projectUuid,
+      title: fillPlaceholders(template.title, values),
+      description: template.description ? fillPlaceholders(template.description, values) : null,
+      status: status.name,
+      status_category: status.category,
+      ...(template.priority ? { priority: template.priority } : {}),
+      ...schedule,
+      board_rank: await getEndOfColumnRank(projectUuid, status.name),
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  // Required custom fields were validated above, so a task without them must not be left behind
+  try {
+    await saveCustomFieldValues(task.task_id, customFieldChanges!);
+  } catch (customFieldSaveError) {
+    await supabase.from("tasks").delete().eq("task_id", task.task_id);
+    return res.status(400).json({ success: false, error: customFieldSaveError });
+  }
+
+  await recordTaskCreated(task, userId);
+
+  // Default assignees who have since left the project are skipped
+  const memberIds = new Set<number>([
+    (project as any).owner_id,
+    ...((project as any).project_members || []).map((m: any) => m.user_id),
+  ]);
+  const assigneeIds = (body.assigned_user_ids ?? template.default_assignee_ids ?? [])
+    .filter((uid: number) => memberIds.has(uid));
+
+  if (assigneeIds.length > 0) {
+    const { error: assignError } = await supabase
+      .from("task_assignments")
+      .insert(assigneeIds.map((uid: number) => ({ task_id: task.task_id, user_id: uid })));
+
+    if (assignError) {
+      console.error("Failed to create task assignments:", assignError);
+      // Don't fail the request
+    }
+  }
+
+  const checklist: string[] = template.checklist || [];
+  if (checklist.length > 0) {
+    const { error: checklistError } = await supabase
+      .from("task_checklist_items")
+      .insert(checklist.map((content, position) => ({
+        task_id: task.task_id,
+        content: fillPlaceholders(content, values),
+        position,
+      })));
+
+    if (checklistError) {
+      console.error("Failed to create checklist from template:", checklistError);
+      // Don't fail the request
+    }
+  }
+
+  // The creator and assignees follow the task
+  await addTaskWatchers(task.task_id, [userId, ...assigneeIds]);
+
+  if (task.description) {
+    await syncMentions({ taskId: task.task_id, text: task.description, actorId: userId });
+  }
+
+  return res.status(201).json({ success: true, task, template_id: templateId });
+};
@@ -1,25 +1,203 @@
 import type { Request, Response } from "express";
 import { supabase } from "../config/supabaseClient";
-import type { CreateTaskRequest, UpdateTaskRequest, Task } from "../types/database";
+import type { CreateTaskRequest, UpdateTaskRequest, MoveTaskRequest, Task } from "../types/database";
+import { getProjectTaskStatuses, resolveTaskStatus } from "../services/taskStatusService";
+import { getEndOfColumnRank } from "../services/boardRankService";
+import { createNextOccurrence, validateRecurrence } from "../services/recurrenceService";
+import {
+  diffAssignees,
+  diffTaskFields,
+  recordAssigneeChange,
+  recordTaskActivity,
+  recordTaskCreated,
+} from "../services/activityService";
+import {
+  escapeLikePattern,
+  findTasksByCustomFields,
+  getCustomFieldValues,
+  resolveCustomFieldValues,
+  saveCustomFieldValues,
+} from "../services/customFieldService";
+import type { CustomFieldChange } from "../services/customFieldService";
+import { milestoneBelongsToProject } from "../services/milestoneService";
+import { syncMentions } from "../services/mentionService";
+import { notifyTaskWatchers } from "../services/notificationService";
+import { resolveTaskSchedule } from "../services/taskScheduleService";
+import { getPurgeAt, trashTask } from "../services/trashService";
+import { addTaskWatchers } from "../services/watcherService";
+import {
+  canEditProject,
+  getAssigneesOutsideProject,
+  getTaskWithSubtaskIds,
+  moveTaskToProject,
+} from "../services/taskMoveService";
+
+// Estimates are in the project's unit (hours or story points)
+const isValidEstimate = (value: unknown) =>
+  typeof value === "number" && isFinite(value) && value >= 0;
+
+// Columns listTasks can sort by; task_id breaks ties so the order is stable
+const TASK_SORT_FIELDS = ["task_id", "created_at", "updated_at", "due_date", "priority", "title"] as const;
+type TaskSortField = typeof TASK_SORT_FIELDS[number];
+
+// Priority sorts by its rank (Low < Medium < High < Critical), not by its text
+const TASK_SORT_COLUMNS: Record<TaskSortField, Exclude<TaskSortField, "priority"> | "priority_rank"> = {
+  task_id: "task_id",
+  created_at: "created_at",
+  updated_at: "updated_at",
+  due_date: "due_date",
+  priority: "priority_rank",
+  title: "title",
+};
+
+const TASK_STATUS_CATEGORIES = ["not_started", "active", "done"];
+
+const DEFAULT_TASK_PAGE_SIZE = 100;
+const MAX_TASK_PAGE_SIZE = 500;
+
+// Opaque listTasks cursor: the sort it was issued for plus the last row's sort value and ID
+interface TaskCursor {
+  sort: TaskSortField;
+  order: "asc" | "desc";
+  value: string | number | null;
+  id: number;
+}
+
+const encodeTaskCursor = (cursor: TaskCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeTaskCursor = (raw: string): TaskCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    return cursor && typeof cursor.id === "number" ? cursor : null;
+  } catch {
+    return null;
+  }
+};
+
+// Quote a value for use inside a PostgREST or() filter
+const quoteFilterValue = (value: string | number) =>
+  `"${String(value).replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const splitQueryList = (value: unknown) =>
+  value ? String(value).split(",").map(v => v.trim()).filter(Boolean) : [];
 
 /**
  * List tasks - optionally filtered by project
- * Users can only see tasks from projects they're members of
+ * Users can only see tasks from projects they're members of.
+ * Supports filters (status, statusCategory, priority, assigneeId, createdBy, milestoneId, sprintId, epicId, dueFrom, dueTo, q),
+ * custom field filters as customFields[<fieldId>]=value,
+ * sort/order, and cursor pagination via limit/cursor; nextCursor is null on the last page.
  */
 export const listTasks = async (req: Request, res: Response) => {
   const userId = req.user?.userId;
   const projectUuid = req.query.projectUuid ? String(req.query.projectUuid) : undefined;
+  // Subtasks are included by default; pass includeSubtasks=false to list top-level tasks only
+  const includeSubtasks = req.query.includeSubtasks !== "false";
+  // Comma-separated label IDs; a task matches if it carries any of them
+  const labelIds = req.query.labelIds
+    ? String(req.query.labelIds).split(",").map(Number).filter(id => !isNaN(id))
+    : [];
+  // Comma-separated lists match any of the given values
+  const statuses = splitQueryList(req.query.status);
+  const statusCategories = splitQueryList(req.query.statusCategory);
+  const priorities = splitQueryList(req.query.priority);
+  const assigneeIds = splitQueryList(req.query.assigneeId).map(Number);
+  const creatorIds = splitQueryList(req.query.createdBy).map(Number);
+  // A milestone ID, or "none" for tasks without a milestone
+  const milestoneFilter = req.query.milestoneId ? String(req.query.milestoneId) : undefined;
+  const sprintId = req.query.sprintId ? Number(req.query.sprintId) : undefined;
+  const epicId = req.query.epicId ? Number(req.query.epicId) : undefined;
+  const customFieldFilters = req.query.customFields;
+  const dueFrom = req.query.dueFrom ? String(req.query.dueFrom) : undefined;
+  const dueTo = req.query.dueTo ? String(req.query.dueTo) : undefined;
+  const searchText = req.query.q ? String(req.query.q).trim() : "";
+  const sort = (req.query.sort ? String(req.query.sort) : "task_id") as TaskSortField;
+  const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_TASK_PAGE_SIZE;
 
   if (!userId) {
     return res.status(401).json({ success: false, message: "User not authenticated" });
   }
 
+  if (!TASK_SORT_FIELDS.includes(sort)) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid sort. Allowed: ${TASK_SORT_FIELDS.join(", ")}`
+    });
+  }
+
+  const sortColumn = TASK_SORT_COLUMNS[sort];
+
+  const invalidCategory = statusCategories.find(c => !TASK_STATUS_CATEGORIES.includes(c));
+  if (invalidCategory) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid statusCategory "${invalidCategory}". Allowed: ${TASK_STATUS_CATEGORIES.join(", ")}`
+    });
+  }
+
+  // Newest first by default for IDs and timestamps, otherwise ascending
+  const defaultOrder = ["task_id", "created_at", "updated_at"].includes(sort) ? "desc" : "asc";
+  const order = req.query.order ? String(req.query.order) : defaultOrder;
+
+  if (order !== "asc" && order !== "desc") {
+    return res.status(400).json({ success: false, message: "order must be asc or desc" });
+  }
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TASK_PAGE_SIZE) {
+    return res.status(400).json({
+      success: false,
+      message: `limit must be an integer between 1 and ${MAX_TASK_PAGE_SIZE}`
+    });
+  }
+
+  if (assigneeIds.some(isNaN) || creatorIds.some(isNaN)) {
+    return res.status(400).json({ success: false, message: "assigneeId and createdBy must be user IDs" });
+  }
+
+  if (milestoneFilter && milestoneFilter !== "none" && isNaN(Number(milestoneFilter))) {
+    return res.status(400).json({ success: false, message: "milestoneId must be a milestone ID or none" });
+  }
+
+  if (sprintId !== undefined && isNaN(sprintId)) {
+    return res.status(400).json({ success: false, message: "sprintId must be a sprint ID" });
+  }
+
+  if (epicId !== undefined && isNaN(epicId)) {
+    return res.status(400).json({ success: false, message: "epicId must be an epic ID" });
+  }
+
+  if (
+    customFieldFilters !== undefined &&
+    (typeof customFieldFilters !== "object" ||
+      Array.isArray(customFieldFilters) ||
+      Object.values(customFieldFilters).some(v => typeof v !== "string"))
+  ) {
+    return res.status(400).json({
+      success: false,
+      message: "customFields filters must look like customFields[12]=value"
+    });
+  }
+
+  if ((dueFrom && isNaN(Date.parse(dueFrom))) || (dueTo && isNaN(Date.parse(dueTo)))) {
+    return res.status(400).json({ success: false, message: "dueFrom and dueTo must be valid dates" });
+  }
+
+  let cursor: TaskCursor | null = null;
+  if (req.query.cursor) {
+    cursor = decodeTaskCursor(String(req.query.cursor));
+    if (!cursor || cursor.sort !== sort || cursor.order !== order) {
+      return res.status(400).json({ success: false, message: "Invalid cursor for this sort order" });
+    }
+  }
+
   // If project UUID is provided, verify user has access to that project
   if (projectUuid) {
     const { data: project } = await supabase
       .from("projects")
       .select("owner_id, project_members!inner(user_id)")
       .eq("project_uuid", projectUuid)
+      .is("deleted_at", null)
       .single();
 
     if (!project) {
@@ -46,14 +224,91 @@ export const listTasks = async (req: Request, res: Response) => {
       title,
       description,
       status,
+      status_category,
       priority,
+      priority_rank,
+      start_date,
       due_date,
+      start_at,
+      due_at,
+      is_all_day,
+      time_zone,
+      estimate,
+      parent_task_id,
+      milestone_id,
+      epic_id,
+      board_rank,
       created_by,
       created_at,
       updated_at,
       projects:project_uuid(name)
     `)
-    .order("task_id", { ascending: false });
+    .is("deleted_at", null)
+    .order(sortColumn, { ascending: order === "asc", nullsFirst: false });
+
+  if (sort !== "task_id") {
+    query = query.order("task_id", { ascending: order === "asc" });
+  }
+
+  if (!includeSubtasks) {
+    query = query.is("parent_task_id", null);
+  }
+
+  if (statuses.length > 0) {
+    query = query.in("status", statuses);
+  }
+
+  if (statusCategories.length > 0) {
+    query = query.in("status_category", statusCategories);
+  }
+
+  if (priorities.length > 0) {
+    query = query.in("priority", priorities);
+  }
+
+  if (creatorIds.length > 0) {
+    query = query.in("created_by", creatorIds);
+  }
+
+  if (milestoneFilter === "none") {
+    query = query.is("milestone_id", null);
+  } else if (milestoneFilter) {
+    query = query.eq("milestone_id", Number(milestoneFilter));
+  }
+
+  if (epicId !== undefined) {
+    query = query.eq("epic_id", epicId);
+  }
+
+  if (dueFrom) {
+    query = query.gte("due_date", dueFrom);
+  }
+
+  if (dueTo) {
+    query = query.lte("due_date", dueTo);
+  }
+
+  if (searchText) {
+    const pattern = quoteFilterValue(`%${escapeLikePattern(searchText)}%`);
+    query = query.or(`title.ilike.${pattern},description.ilike.${pattern}`);
+  }
+
+  // Keyset pagination: rows strictly after the cursor in (sort, task_id) order, nulls last
+  if (cursor) {
+    const op = order === "asc" ? "gt" : "lt";
+    if (sort === "task_id") {
+      query = query[op]("task_id", cursor.id);
+    } else if (cursor.value === null) {
+      query = query.is(sortColumn, null)[op]("task_id", cursor.id);
+    } else {
+      const value = quoteFilterValue(cursor.value);
+      query = query.or(
+        `${sortColumn}.${op}.${value},and(${sortColumn}.eq.${value},task_id.${op}.${cursor.id}),${sortColumn}.is.null`
+      );
+    }
+  }
+
+  query = query.limit(limit + 1);
 
   if (projectUuid) {
     query = query.eq("project_uuid", projectUuid);
@@ -78,18 +333,78 @@ export const listTasks = async (req: Request, res: Response) => {
       query = query.in("project_uuid", Array.from(projectUuids));
     } else {
       // User has no projects, return empty
-      return res.json({ success: true, tasks: [] });
+      return res.json({ success: true, tasks: [], nextCursor: null });
+    }
+  }
+
+  if (labelIds.length > 0) {
+    const { data: labelled } = await supabase
+      .from("task_labels")
+      .select("task_id")
+      .in("label_id", labelIds);
+
+    const labelledTaskIds = Array.from(new Set((labelled || []).map(l => l.task_id)));
+    if (labelledTaskIds.length === 0) {
+      return res.json({ success: true, tasks: [], nextCursor: null });
+    }
+    query = query.in("task_id", labelledTaskIds);
+  }
+
+  if (assigneeIds.length > 0) {
+    const { data: assigned } = await supabase
+      .from("task_assignments")
+      .select("task_id")
+      .in("user_id", assigneeIds);
+
+    const assignedTaskIds = Array.from(new Set((assigned || []).map(a => a.task_id)));
+    if (assignedTaskIds.length === 0) {
+      return res.json({ success: true, tasks: [], nextCursor: null });
+    }
+    query = query.in("task_id", assignedTaskIds);
+  }
+
+  if (sprintId !== undefined) {
+    const { data: sprintTasks } = await supabase
+      .from("sprint_tasks")
+      .select("task_id")
+      .eq("sprint_id", sprintId);
+
+    const sprintTaskIds = (sprintTasks || []).map(t => t.task_id);
+    if (sprintTaskIds.length === 0) {
+      return res.json({ success: true, tasks: [], nextCursor: null });
     }
+    query = query.in("task_id", sprintTaskIds);
   }
 
-  const { data: tasks, error } = await query;
+  if (customFieldFilters) {
+    const { taskIds: matchingTaskIds, error: filterError } = await findTasksByCustomFields(
+      customFieldFilters as Record<string, string>
+    );
+
+    if (filterError) {
+      return res.status(400).json({ success: false, message: filterError });
+    }
+    if (matchingTaskIds!.length === 0) {
+      return res.json({ success: true, tasks: [], nextCursor: null });
+    }
+    query = query.in("task_id", matchingTaskIds!);
+  }
+
+  const { data: rows, error } = await query;
 
   if (error) {
     return res.status(400).json({ success: false, error });
   }
 
+  // One extra row was fetched to tell whether another page exists
+  const tasks = (rows || []).slice(0, limit);
+  const lastTask = tasks[tasks.length - 1];
+  const nextCursor = rows && rows.length > limit && lastTask
+    ? encodeTaskCursor({ sort, order, value: lastTask[sortColumn] ?? null, id: lastTask.task_id })
+    : null;
+
   // Get assignments for all tasks
-  if (tasks && tasks.length > 0) {
+  if (tasks.length > 0) {
     const taskIds = tasks.map(t => t.task_id);
     const { data: assignments } = await supabase
       .from("task_assignments")
@@ -109,16 +424,46 @@ export const listTasks = async (req: Request, res: Response) => {
       });
     });
 
-    // Add assignments to tasks
+    // Count comments per task
+    const { data: comments } = await supabase
+      .from("task_comments")
+      .select("task_id")
+      .in("task_id", taskIds);
+
+    const commentCountByTask = new Map<number, number>();
+    comments?.forEach(comment => {
+      commentCountByTask.set(comment.task_id, (commentCountByTask.get(comment.task_id) || 0) + 1);
+    });
+
+    // Get labels for all tasks
+    const { data: taskLabels } = await supabase
+      .from("task_labels")
+      .select("task_id, project_labels:label_id(label_id, name, color)")
+      .in("task_id", taskIds);
+
+    const labelsByTask = new Map<number, any[]>();
+    taskLabels?.forEach(taskLabel => {
+      if (!labelsByTask.has(taskLabel.task_id)) {
+        labelsByTask.set(taskLabel.task_id, []);
+      }
+      labelsByTask.get(taskLabel.task_id)!.push((taskLabel as any).project_labels);
+    });
+
+    const customFieldsByTask = await getCustomFieldValues(taskIds);
+
+    // Add assignments, labels, custom fields and comment counts to tasks
     const tasksWithAssignments = tasks.map(task => ({
       ...task,
       assignees: assignmentsByTask.get(task.task_id) || [],
+      labels: labelsByTask.get(task.task_id) || [],
+      custom_fields: customFieldsByTask.get(task.task_id) || {},
+      comment_count: commentCountByTask.get(task.task_id) || 0,
     }));
 
-    return res.json({ success: true, tasks: tasksWithAssignments });
+    return res.json({ success: true, tasks: tasksWithAssignments, nextCursor });
   }
 
-  return res.json({ success: true, tasks: tasks || [] });
+  return res.json({ success: true, tasks, nextCursor });
 };
 
 /**
@@ -144,14 +489,28 @@ export const getTaskById = async (req: Request, res: Response) => {
       title,
       description,
       status,
+      status_category,
       priority,
+      start_date,
       due_date,
+      start_at,
+      due_at,
+      is_all_day,
+      time_zone,
+      estimate,
+      parent_task_id,
+      milestone_id,
+      epic_id,
+      recurrence,
+      recurrence_source_id,
+      next_occurrence_id,
       created_by,
       created_at,
       updated_at,
-      projects:project_uuid(name, owner_id, project_members!inner(user_id))
+      projects:project_uuid(name, owner_id, estimation_unit, project_members!inner(user_id))
     `)
     .eq("task_id", taskId)
+    .is("deleted_at", null)
     .single();
 
   if (error || !task) {
@@ -180,14 +539,78 @@ export const getTaskById = async (req: Request, res: Response) => {
     .select("task_id, user_id, assigned_at, users:user_id(name, email)")
     .eq("task_id", taskId);
 
+  const customFields = (await getCustomFieldValues([taskId])).get(taskId) || {};
+
+  // Get child tasks, checklist items, dependencies, labels and description mentions
+  const [
+    { data: subtasks },
+    { data: checklist },
+    { data: blockers },
+    { data: dependents },
+    { data: labels },
+    { data: mentions },
+  ] = await Promise.all([
+    supabase
+      .from("tasks")
+      .select("task_id, title, status, status_category, priority, due_date, created_at")
+      .eq("parent_task_id", taskId)
+      .is("deleted_at", null)
+      .order("task_id", { ascending: true }),
+    supabase
+      .from("task_checklist_items")
+      .select("item_id, content, is_completed, position, completed_by, completed_at, created_at")
+      .eq("task_id", taskId)
+      .order("position", { ascending: true })
+      .order("item_id", { ascending: true }),
+    supabase
+      .from("task_dependencies")
+      .select("tasks:blocked_by_task_id(task_id, project_uuid, title, status, status_category, due_date)")
+      .eq("task_id", taskId)
+      .is("tasks.deleted_at", null),
+    supabase
+      .from("task_dependencies")
+      .select("tasks:task_id(task_id, project_uuid, title, status, status_category, due_date)")
+      .eq("blocked_by_task_id", taskId)
+      .is("tasks.deleted_at", null),
+    supabase
+      .from("task_labels")
+      .select("project_labels:label_id(label_id, name, color)")
+      .eq("task_id", taskId),
+    supabase
+      .from("task_mentions")
+      .select("mentioned_user_id, users:mentioned_user_id(name, email)")
+      .eq("task_id", taskId)
+      .is("comment_id", null),
+  ]);
+
+  // Completion counts subtasks and checklist items alike
+  const completedSubtasks = (subtasks || []).filter(t => t.status_category === "done").length;
+  const completedItems = (checklist || []).filter(i => i.is_completed).length;
+  const totalChildren = (subtasks?.length || 0) + (checklist?.length || 0);
+  const completedChildren = completedSubtasks + completedItems;
+
   const taskWithAssignments = {
     task_id: task.task_id,
     project_uuid: task.project_uuid,
     title: task.title,
     description: task.description,
     status: task.status,
+    status_category: task.status_category,
     priority: task.priority,
+    start_date: task.start_date,
     due_date: task.due_date,
+    start_at: task.start_at,
+    due_at: task.due_at,
+    is_all_day: task.is_all_day,
+    time_zone: task.time_zone,
+    estimate: task.estimate,
+    estimate_unit: project.estimation_unit,
+    parent_task_id: task.parent_task_id,
+    milestone_id: task.milestone_id,
+    epic_id: task.epic_id,
+    recurrence: task.recurrence,
+    recurrence_source_id: task.recurrence_source_id,
+    next_occurrence_id: task.next_occurrence_id,
     created_by: task.created_by,
     created_at: task.created_at,
     updated_at: task.updated_at,
@@ -197,6 +620,22 @@ export const getTaskById = async (req: Request, res: Response) => {
       email: (a as any).users?.email,
       assigned_at: a.assigned_at,
     })) || [],
+    labels: (labels || []).map(l => (l as any).project_labels).filter(Boolean),
+    custom_fields: customFields,
+    mentions: (mentions || []).map(m => ({
+      user_id: m.mentioned_user_id,
+      name: (m as any).users?.name,
+      email: (m as any).users?.email,
+    })),
+    subtasks: subtasks || [],
+    checklist: checklist || [],
+    blockers: (blockers || []).map(d => (d as any).tasks).filter(Boolean),
+    dependents: (dependents || []).map(d => (d as any).tasks).filter(Boolean),
+    completion: {
+      completed: completedChildren,
+      total: totalChildren,
+      ratio: totalChildren > 0 ? completedChildren / totalChildren : null,
+    },
   };
 
   return res.json({ success: true, task: taskWithAssignments });
@@ -220,11 +659,28 @@ export const createTask = async (req: Request, res: Response) => {
     });
   }
 
+  if (body.recurrence) {
+    const recurrenceError = validateRecurrence(body.recurrence);
+    if (recurrenceError) {
+      return res.status(400).json({ success: false, message: recurrenceError });
+    }
+  }
+
+  const { schedule, error: scheduleError } = resolveTaskSchedule(body);
+  if (scheduleError) {
+    return res.status(400).json({ success: false, message: scheduleError });
+  }
+
+  if (body.estimate !== undefined && body.estimate !== null && !isValidEstimate(body.estimate)) {
+    return res.status(400).json({ success: false, message: "estimate must be a non-negative number" });
+  }
+
   // Verify user has access to the project
   const { data: project, error: projectError } = await supabase
     .from("projects")
     .select("owner_id, project_members!inner(user_id)")
     .eq("project_uuid", body.project_uuid)
+    .is("deleted_at", null)
     .single();
 
   if (projectError || !project) {
@@ -241,14 +697,68 @@ export const createTask = async (req: Request, res: Response) => {
     });
   }
 
+  // Subtasks must live in the parent's project, and only one level deep
+  if (body.parent_task_id !== undefined && body.parent_task_id !== null) {
+    const { data: parentTask } = await supabase
+      .from("tasks")
+      .select("task_id, project_uuid, parent_task_id")
+      .eq("task_id", body.parent_task_id)
+      .is("deleted_at", null)
+      .single();
+
+    if (!parentTask || parentTask.project_uuid !== body.project_uuid) {
+      return res.status(400).json({
+        success: false,
+        message: "Parent task not found in this project"
+      });
+    }
+
+    if (parentTask.parent_task_id) {
+      return res.status(400).json({
+        success: false,
+        message: "Subtasks cannot have their own subtasks"
+      });
+    }
+  }
+
+  if (body.milestone_id && !(await milestoneBelongsToProject(body.milestone_id, body.project_uuid))) {
+    return res.status(400).json({ success: false, message: "Milestone not found in this project" });
+  }
+
+  // Resolve the status against the project's workflow
+  const statuses = await getProjectTaskStatuses(body.project_uuid);
+  const status = resolveTaskStatus(statuses, body.status);
+
+  if (!status) {
+    return res.status(400).json({
+      success: false,
+      message: `Invalid status. Allowed: ${statuses.map(s => s.name).join(", ")}`
+    });
+  }
+
+  const { changes: customFieldChanges, error: customFieldError } = await resolveCustomFieldValues(
+    body.project_uuid,
+    body.custom_fields,
+    true
+  );
+  if (customFieldError) {
+    return res.status(400).json({ success: false, message: customFieldError });
+  }
+
   // Create task
   const taskData: Partial<Task> = {
     project_uuid: body.project_uuid,
     title: body.title,
     description: body.description || null,
-    status: body.status || "On track",
+    status: status.name,
+    status_category: status.category,
     priority: body.priority || "Medium",
-    due_date: body.due_date || null,
+    ...schedule,
+    estimate: body.estimate ?? null,
+    parent_task_id: body.parent_task_id || null,
+    milestone_id: body.milestone_id || null,
+    board_rank: await getEndOfColumnRank(body.project_uuid, status.name),
+    recurrence: body.recurrence || null,
     created_by: userId,
   };
 
@@ -262,6 +772,16 @@ export const createTask = async (req: Request, res: Response) => {
     return res.status(400).json({ success: false, error: taskError });
   }
 
+  // Required custom fields were validated above, so a task without them must not be left behind
+  try {
+    await saveCustomFieldValues(task.task_id, customFieldChanges!);
+  } catch (customFieldSaveError) {
+    await supabase.from("tasks").delete().eq("task_id", task.task_id);
+    return res.status(400).json({ success: false, error: customFieldSaveError });
+  }
+
+  await recordTaskCreated(task, userId);
+
   // Assign users if provided
   if (body.assigned_user_ids && body.assigned_user_ids.length > 0) {
     const assignments = body.assigned_user_ids.map(userId => ({
@@ -279,7 +799,36 @@ export const createTask = async (req: Request, res: Response) => {
     }
   }
 
-  return res.status(201).json({ success: true, task });
+  // Attach labels if provided (only labels of this project)
+  if (body.label_ids && body.label_ids.length > 0) {
+    const { data: projectLabels } = await supabase
+      .from("project_labels")
+      .select("label_id")
+      .eq("project_uuid", body.project_uuid)
+      .in("label_id", body.label_ids);
+
+    if (projectLabels && projectLabels.length > 0) {
+      const { error: labelError } = await supabase
+        .from("task_labels")
+        .insert(projectLabels.map(l => ({ task_id: task.task_id, label_id: l.label_id })));
+
+      if (labelError) {
+        console.error("Failed to add labels to task:", labelError);
+        // Don't fail the request, just log the error
+      }
+    }
+  }
+
+  // The creator and assignees follow the task
+  await addTaskWatchers(task.task_id, [userId, ...(body.assigned_user_ids || [])]);
+
+  if (body.description) {
+    await syncMentions({ taskId: task.task_id, text: body.description, actorId: userId });
+  }
+
+  const customFields = (await getCustomFieldValues([task.task_id])).get(task.task_id) || {};
+
+  return res.status(201).json({ success: true, task: { ...task, custom_fields: customFields } });
 };
 
 /**
@@ -304,9 +853,22 @@ export const updateTask = async (req: Request, res: Response) => {
     .select(`
       task_id,
       project_uuid,
+      title,
+      description,
+      status,
+      status_category,
+      priority,
+      start_date,
+      due_date,
+      start_at,
+      due_at,
+      is_all_day,
+      time_zone,
+      milestone_id,
       projects:project_uuid(owner_id, project_members!inner(user_id))
     `)
     .eq("task_id", taskId)
+    .is("deleted_at", null)
     .single();
 
   if (fetchError || !existingTask) {
@@ -329,15 +891,108 @@ export const updateTask = async (req: Request, res: Response) => {
   const updateData: Partial<Task> = {};
   if (body.title !== undefined) updateData.title = body.title;
   if (body.description !== undefined) updateData.description = body.description;
-  if (body.status !== undefined) updateData.status = body.status;
   if (body.priority !== undefined) updateData.priority = body.priority;
-  if (body.due_date !== undefined) updateData.due_date = body.due_date || null;
 
-  if (Object.keys(updateData).length === 0 && !body.assigned_user_ids) {
+  const { schedule, error: scheduleError } = resolveTaskSchedule(body, existingTask);
+  if (scheduleError) {
+    return res.status(400).json({ success: false, message: scheduleError });
+  }
+  Object.assign(updateData, schedule);
+
+  if (body.estimate !== undefined) {
+    if (body.estimate !== null && !isValidEstimate(body.estimate)) {
+      return res.status(400).json({ success: false, message: "estimate must be a non-negative number" });
+    }
+    updateData.estimate = body.estimate;
+  }
+
+  if (body.milestone_id !== undefined) {
+    if (body.milestone_id && !(await milestoneBelongsToProject(body.milestone_id, existingTask.project_uuid))) {
+      return res.status(400).json({ success: false, message: "Milestone not found in this project" });
+    }
+    updateData.milestone_id = body.milestone_id || null;
+  }
+
+  if (body.recurrence !== undefined) {
+    if (body.recurrence) {
+      const recurrenceError = validateRecurrence(body.recurrence);
+      if (recurrenceError) {
+        return res.status(400).json({ success: false, message: recurrenceError });
+      }
+    }
+    updateData.recurrence = body.recurrence || null;
+  }
+
+  if (body.status !== undefined) {
+    const statuses = await getProjectTaskStatuses(existingTask.project_uuid);
+    const status = resolveTaskStatus(statuses, body.status);
+
+    if (!status) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Allowed: ${statuses.map(s => s.name).join(", ")}`
+      });
+    }
+
+    updateData.status = status.name;
+    updateData.status_category = status.category;
+
+    // Changing column puts the card at the bottom of its new column
+    if (status.name !== existingTask.status) {
+      updateData.board_rank = await getEndOfColumnRank(existingTask.project_uuid, status.name);
+    }
+  }
+
+  let customFieldChanges: CustomFieldChange[] = [];
+  if (body.custom_fields !== undefined) {
+    const resolved = await resolveCustomFieldValues(existingTask.project_uuid, body.custom_fields, false);
+    if (resolved.error) {
+      return res.status(400).json({ success: false, message: resolved.error });
+    }
+    customFieldChanges = resolved.changes!;
+  }
+
+  if (
+    Object.keys(updateData).length === 0 &&
+    !body.assigned_user_ids &&
+    !body.label_ids &&
+    customFieldChanges.length === 0
+  ) {
     return res.status(400).json({ success: false, message: "No fields to update" });
   }
 
+  // A task cannot be completed while any of its blockers are still open
+  if (updateData.status_category === "done") {
+    const { data: blockers } = await supabase
+      .from("task_dependencies")
+      .select("tasks:blocked_by_task_id(task_id, title, status, status_category)")
+      .eq("task_id", taskId)
+      .is("tasks.deleted_at", null);
+
+    const openBlockers = (blockers || [])
+      .map(d => (d as any).tasks)
+      .filter((t: any) => t && t.status_category !== "done");
+
+    if (openBlockers.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: "Task is blocked by open tasks and cannot be completed",
+        blockers: openBlockers,
+      });
+    }
+  }
+
+  // Custom fields go first: if they can't be saved, nothing else is changed or recorded
+  if (customFieldChanges.length > 0) {
+    try {
+      await saveCustomFieldValues(taskId, customFieldChanges);
+    } catch (customFieldSaveError) {
+      return res.status(400).json({ success: false, error: customFieldSaveError });
+    }
+  }
+
   let updatedTask = existingTask;
+  const changes = diffTaskFields(existingTask, updateData);
 
   if (Object.keys(updateData).length > 0) {
     const { data: task, error: updateError } = await supabase
@@ -358,6 +1013,16 @@ export const updateTask = async (req: Request, res: Response) => {
 
   // Update assignments if provided
   if (body.assigned_user_ids !== undefined) {
+    const { data: previousAssignments } = await supabase
+      .from("task_assignments")
+      .select("user_id")
+      .eq("task_id", taskId);
+
+    changes.push(...diffAssignees(
+      (previousAssignments || []).map(a => a.user_id),
+      body.assigned_user_ids
+    ));
+
     // Delete existing assignments
     await supabase
       .from("task_assignments")
@@ -379,14 +1044,83 @@ export const updateTask = async (req: Request, res: Response) => {
         console.error("Failed to update task assignments:", assignError);
         // Don't fail the request
       }
+
+      await addTaskWatchers(taskId, body.assigned_user_ids);
     }
   }
 
-  return res.json({ success: true, task: updatedTask });
+  // Replace labels if provided (only labels of this project)
+  if (body.label_ids !== undefined) {
+    await supabase
+      .from("task_labels")
+      .delete()
+      .eq("task_id", taskId);
+
+    if (body.label_ids.length > 0) {
+      const { data: projectLabels } = await supabase
+        .from("project_labels")
+        .select("label_id")
+        .eq("project_uuid", existingTask.project_uuid)
+        .in("label_id", body.label_ids);
+
+      if (projectLabels && projectLabels.length > 0) {
+        const { error: labelError } = await supabase
+          .from("task_labels")
+          .insert(projectLabels.map(l => ({ task_id: taskId, label_id: l.label_id })));
+
+        if (labelError) {
+          console.error("Failed to update task labels:", labelError);
+          // Don't fail the request
+        }
+      }
+    }
+  }
+
+  await recordTaskActivity(taskId, userId, changes);
+
+  if (updateData.description !== undefined) {
+    await syncMentions({ taskId, text: updateData.description, actorId: userId });
+  }
+
+  if (updateData.status !== undefined && updateData.status !== existingTask.status) {
+    await notifyTaskWatchers({
+      type: "task_status_changed",
+      taskId,
+      actorId: userId,
+      data: { from: existingTask.status, to: updateData.status },
+    });
+  }
+
+  // Timed tasks report the due time, all-day tasks the due date
+  if (changes.some(c => c.field === "due_date" || c.field === "due_at")) {
+    await notifyTaskWatchers({
+      type: "task_due_date_changed",
+      taskId,
+      actorId: userId,
+      data: {
+        from: existingTask.due_at ?? existingTask.due_date,
+        to: updateData.due_at ?? updateData.due_date,
+      },
+    });
+  }
+
+  // Completing a recurring task schedules its next occurrence
+  let nextOccurrence = null;
+  if (updateData.status_category === "done" && existingTask.status_category !== "done") {
+    nextOccurrence = await createNextOccurrence(taskId, userId);
+  }
+
+  const customFields = (await getCustomFieldValues([taskId])).get(taskId) || {};
+
+  return res.json({
+    success: true,
+    task: { ...updatedTask, custom_fields: customFields },
+    ...(nextOccurrence ? { nextOccurrence } : {}),
+  });
 };
 
 /**
- * Delete task
+ * Delete task (moves it and its subtasks to the trash)
  */
 export const deleteTask = async (req: Request, res: Response) => {
   const taskId = Number(req.params.taskId);
@@ -409,6 +1143,7 @@ export const deleteTask = async (req: Request, res: Response) => {
       projects:project_uuid(owner_id, project_members!inner(user_id))
     `)
     .eq("task_id", taskId)
+    .is("deleted_at", null)
     .single();
 
   if (fetchError || !task) {
@@ -427,17 +1162,95 @@ export const deleteTask = async (req: Request, res: Response) => {
     });
   }
 
-  // Delete task (assignments will be deleted automatically via CASCADE)
-  const { error } = await supabase
+  // Trash the task and its subtasks; the owner can restore them until they're purged
+  let trashed: { taskIds: number[]; deletedAt: string };
+  try {
+    trashed = await trashTask(taskId, userId);
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({
+    success: true,
+    message: "Task moved to trash",
+    deletedTaskIds: trashed.taskIds,
+    purgeAt: getPurgeAt(trashed.deletedAt),
+  });
+};
+
+/**
+ * Move a task (with its subtasks, comments and attachments) to another project
+ * Requires edit rights in both projects. Assignees who aren't members of the
+ * target project are dropped and reported, or the move is refused when
+ * drop_assignees is false.
+ */
+export const moveTask = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const body = req.body as MoveTaskRequest;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!body.project_uuid) {
+    return res.status(400).json({ success: false, message: "project_uuid is required" });
+  }
+
+  const { data: task } = await supabase
     .from("tasks")
-    .delete()
-    .eq("task_id", taskId);
+    .select("task_id, project_uuid")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
 
-  if (error) {
-    return res.status(400).json({ success: false, error });
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  if (task.project_uuid === body.project_uuid) {
+    return res.status(400).json({ success: false, message: "Task is already in this project" });
   }
 
-  return res.json({ success: true, message: "Task deleted successfully" });
+  const [canEditSource, canEditTarget] = await Promise.all([
+    canEditProject(task.project_uuid, userId),
+    canEditProject(body.project_uuid, userId),
+  ]);
+
+  if (!canEditSource || !canEditTarget) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You need edit rights in both projects to move a task."
+    });
+  }
+
+  if (body.drop_assignees === false) {
+    const taskIds = await getTaskWithSubtaskIds(taskId);
+    const outsideAssignees = await getAssigneesOutsideProject(taskIds, body.project_uuid);
+
+    if (outsideAssignees.length > 0) {
+      return res.status(409).json({
+        success: false,
+        message: "Some assignees are not members of the target project",
+        assignees: outsideAssignees,
+      });
+    }
+  }
+
+  const result = await moveTaskToProject(taskId, body.project_uuid);
+
+  return res.json({
+    success: true,
+    task: result.task,
+    movedTaskIds: result.movedTaskIds,
+    droppedAssignees: result.droppedAssignees,
+    droppedLabels: result.droppedLabels,
+    droppedCustomFields: result.droppedCustomFields,
+  });
 };
 
 /**
@@ -460,6 +1273,7 @@ export const listTaskAssignments = async (req: Request, res: Response) => {
     .from("tasks")
     .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
     .eq("task_id", taskId)
+    .is("deleted_at", null)
     .single();
 
   if (!task) {
@@ -522,6 +1336,7 @@ export const assignUserToTask = async (req: Request, res: Response) => {
     .from("tasks")
     .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
     .eq("task_id", taskId)
+    .is("deleted_at", null)
     .single();
 
   if (!task) {
@@ -564,6 +1379,10 @@ export const assignUserToTask = async (req: Request, res: Response) => {
     return res.status(400).json({ success: false, error });
   }
 
+  await addTaskWatchers(taskId, [user_id]);
+
+  await recordAssigneeChange(taskId, userId, { added: user_id });
+
   return res.status(201).json({ success: true, assignment: data });
 };
 
@@ -588,6 +1407,7 @@ export const unassignUserFromTask = async (req: Request, res: Response) => {
     .from("tasks")
     .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
     .eq("task_id", taskId)
+    .is("deleted_at", null)
     .single();
 
   if (!task) {
@@ -605,15 +1425,20 @@ export const unassignUserFromTask = async (req: Request, res: Response) => {
     });
   }
 
-  const { error } = await supabase
+  const { data: removed, error } = await supabase
     .from("task_assignments")
     .delete()
     .eq("task_id", taskId)
-    .eq("user_id", userIdToRemove);
+    .eq("user_id", userIdToRemove)
+    .select("user_id");
 
   if (error) {
     return res.status(400).json({ success: false, error });
   }
 
+  if (removed && removed.length > 0) {
+    await recordAssigneeChange(taskId, userId, { removed: userIdToRemove });
+  }
+
   return res.json({ success: true, message: "User unassigned from task" });
 };
@@ -0,0 +1,703 @@
+import type { Request, Response } from "express";
+import { supabase } from "../config/supabaseClient";
+import type {
+  CreateTimeEntryRequest,
+  StartTimerRequest,
+  TimeEntry,
+  UpdateTimeEntryRequest,
+} from "../types/database";
+
+const TIME_ENTRY_SELECT = `
+  entry_id,
+  task_id,
+  user_id,
+  source,
+  started_at,
+  ended_at,
+  duration_seconds,
+  note,
+  created_at,
+  updated_at,
+  users:user_id(name, email)
+`;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isValidDate = (value: string) =>
+  DATE_PATTERN.test(value) && !isNaN(Date.parse(`${value}T00:00:00Z`));
+
+// Notes are optional free text; null clears them
+const isValidNote = (note: unknown) => note === undefined || note === null || typeof note === "string";
+
+const formatEntry = (entry: any) => ({
+  entry_id: entry.entry_id,
+  task_id: entry.task_id,
+  user_id: entry.user_id,
+  source: entry.source,
+  started_at: entry.started_at,
+  ended_at: entry.ended_at,
+  duration_seconds: entry.duration_seconds,
+  note: entry.note,
+  created_at: entry.created_at,
+  updated_at: entry.updated_at,
+  user: entry.users || null,
+});
+
+/**
+ * List time entries of a task (newest first) with the task total
+ */
+export const listTaskTimeEntries = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("time_entries")
+    .select(TIME_ENTRY_SELECT)
+    .eq("task_id", taskId)
+    .order("started_at", { ascending: false });
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const totalSeconds = (data || []).reduce((sum, e) => sum + (e.duration_seconds || 0), 0);
+
+  return res.json({
+    success: true,
+    entries: (data || []).map(formatEntry),
+    totalSeconds,
+  });
+};
+
+/**
+ * Start a timer on a task for the current user
+ * A user can only run one timer at a time
+ */
+export const startTaskTimer = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const body = (req.body || {}) as StartTimerRequest;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!isValidNote(body.note)) {
+    return res.status(400).json({ success: false, message: "note must be a string" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: running } = await supabase
+    .from("time_entries")
+    .select("entry_id, task_id, started_at, tasks:task_id(deleted_at, projects:project_uuid(owner_id, project_members(user_id)))")
+    .eq("user_id", userId)
+    .is("ended_at", null)
+    .maybeSingle();
+
+  // A timer on a task the user can no longer reach (trashed, or they left the project)
+  // can't be stopped through its task, so it is closed here instead of blocking
+  const runningTask = (running as any)?.tasks;
+  const runningProject = runningTask?.projects;
+  const canReachRunningTask = Boolean(runningTask) && !runningTask.deleted_at && (
+    runningProject?.owner_id === userId ||
+    runningProject?.project_members?.some((m: any) => m.user_id === userId)
+  );
+
+  if (running && !canReachRunningTask) {
+    const endedAt = new Date();
+    await supabase
+      .from("time_entries")
+      .update({
+        ended_at: endedAt.toISOString(),
+        duration_seconds: Math.max(0, Math.round((endedAt.getTime() - new Date(running.started_at).getTime()) / 1000)),
+        updated_at: endedAt.toISOString(),
+      })
+      .eq("entry_id", running.entry_id);
+  } else if (running) {
+    return res.status(409).json({
+      success: false,
+      message: "You already have a running timer. Stop it before starting a new one.",
+      runningEntry: { entry_id: running.entry_id, task_id: running.task_id, started_at: running.started_at },
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("time_entries")
+    .insert({
+      task_id: taskId,
+      user_id: userId,
+      source: "timer",
+      started_at: new Date().toISOString(),
+      note: body.note?.trim() || null,
+    })
+    .select(TIME_ENTRY_SELECT)
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, entry: formatEntry(data) });
+};
+
+/**
+ * Stop the current user's running timer on a task
+ */
+export const stopTaskTimer = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const body = (req.body || {}) as StartTimerRequest;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!isValidNote(body.note)) {
+    return res.status(400).json({ success: false, message: "note must be a string" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: running } = await supabase
+    .from("time_entries")
+    .select("entry_id, started_at, note")
+    .eq("task_id", taskId)
+    .eq("user_id", userId)
+    .is("ended_at", null)
+    .maybeSingle();
+
+  if (!running) {
+    return res.status(404).json({ success: false, message: "No running timer on this task" });
+  }
+
+  const endedAt = new Date();
+  const durationSeconds = Math.max(
+    0,
+    Math.round((endedAt.getTime() - new Date(running.started_at).getTime()) / 1000)
+  );
+
+  const { data, error } = await supabase
+    .from("time_entries")
+    .update({
+      ended_at: endedAt.toISOString(),
+      duration_seconds: durationSeconds,
+      note: body.note !== undefined ? body.note?.trim() || null : running.note,
+      updated_at: endedAt.toISOString(),
+    })
+    .eq("entry_id", running.entry_id)
+    .select(TIME_ENTRY_SELECT)
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, entry: formatEntry(data) });
+};
+
+/**
+ * Log time manually on a task
+ */
+export const createTimeEntry = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+  const body = req.body as CreateTimeEntryRequest;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!isValidNote(body.note)) {
+    return res.status(400).json({ success: false, message: "note must be a string" });
+  }
+
+  const durationMinutes = Number(body.duration_minutes);
+  if (!isFinite(durationMinutes) || durationMinutes <= 0) {
+    return res.status(400).json({ success: false, message: "duration_minutes must be a positive number" });
+  }
+
+  const durationSeconds = Math.round(durationMinutes * 60);
+  const startedAt = body.started_at
+    ? new Date(body.started_at)
+    : new Date(Date.now() - durationSeconds * 1000);
+
+  if (isNaN(startedAt.getTime())) {
+    return res.status(400).json({ success: false, message: "Invalid started_at" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("time_entries")
+    .insert({
+      task_id: taskId,
+      user_id: userId,
+      source: "manual",
+      started_at: startedAt.toISOString(),
+      ended_at: new Date(startedAt.getTime() + durationSeconds * 1000).toISOString(),
+      duration_seconds: durationSeconds,
+      note: body.note?.trim() || null,
+    })
+    .select(TIME_ENTRY_SELECT)
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.status(201).json({ success: true, entry: formatEntry(data) });
+};
+
+/**
+ * Update a time entry
+ * Users can only edit their own entries, and only once the timer is stopped
+ */
+export const updateTimeEntry = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const entryId = Number(req.params.entryId);
+  const userId = req.user?.userId;
+  const body = req.body as UpdateTimeEntryRequest;
+
+  if (isNaN(taskId) || isNaN(entryId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID or entry ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!isValidNote(body.note)) {
+    return res.status(400).json({ success: false, message: "note must be a string" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: existing } = await supabase
+    .from("time_entries")
+    .select("entry_id, user_id, started_at, ended_at, duration_seconds")
+    .eq("entry_id", entryId)
+    .eq("task_id", taskId)
+    .single();
+
+  if (!existing) {
+    return res.status(404).json({ success: false, message: "Time entry not found" });
+  }
+
+  if (existing.user_id !== userId) {
+    return res.status(403).json({ success: false, message: "You can only edit your own time entries" });
+  }
+
+  if (!existing.ended_at && (body.duration_minutes !== undefined || body.started_at !== undefined)) {
+    return res.status(409).json({ success: false, message: "Stop the timer before changing its time" });
+  }
+
+  const updateData: Partial<TimeEntry> = {};
+  let startedAt = new Date(existing.started_at);
+  let durationSeconds = existing.duration_seconds;
+
+  if (body.started_at !== undefined) {
+    startedAt = new Date(body.started_at);
+    if (isNaN(startedAt.getTime())) {
+      return res.status(400).json({ success: false, message: "Invalid started_at" });
+    }
+    updateData.started_at = startedAt.toISOString();
+  }
+
+  if (body.duration_minutes !== undefined) {
+    const durationMinutes = Number(body.duration_minutes);
+    if (!isFinite(durationMinutes) || durationMinutes <= 0) {
+      return res.status(400).json({ success: false, message: "duration_minutes must be a positive number" });
+    }
+    durationSeconds = Math.round(durationMinutes * 60);
+    updateData.duration_seconds = durationSeconds;
+  }
+
+  if (updateData.started_at !== undefined || updateData.duration_seconds !== undefined) {
+    updateData.ended_at = new Date(startedAt.getTime() + (durationSeconds || 0) * 1000).toISOString();
+  }
+
+  if (body.note !== undefined) updateData.note = body.note?.trim() || null;
+
+  if (Object.keys(updateData).length === 0) {
+    return res.status(400).json({ success: false, message: "No fields to update" });
+  }
+
+  updateData.updated_at = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("time_entries")
+    .update(updateData)
+    .eq("entry_id", entryId)
+    .select(TIME_ENTRY_SELECT)
+    .single();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, entry: formatEntry(data) });
+};
+
+/**
+ * Delete a time entry (own entries only)
+ */
+export const deleteTimeEntry = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const entryId = Number(req.params.entryId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId) || isNaN(entryId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID or entry ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  // Verify user has access to the task's project
+  const { data: task } = await supabase
+    .from("tasks")
+    .select("project_uuid, projects:project_uuid(owner_id, project_members!inner(user_id))")
+    .eq("task_id", taskId)
+    .is("deleted_at", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found" });
+  }
+
+  const project = (task as any).projects;
+  const isOwner = project?.owner_id === userId;
+  const isMember = project?.project_members?.some((m: any) => m.user_id === userId);
+
+  if (!isOwner && !isMember) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const { data: existing } = await supabase
+    .from("time_entries")
+    .select("entry_id, user_id")
+    .eq("entry_id", entryId)
+    .eq("task_id", taskId)
+    .single();
+
+  if (!existing) {
+    return res.status(404).json({ success: false, message: "Time entry not found" });
+  }
+
+  if (existing.user_id !== userId) {
+    return res.status(403).json({ success: false, message: "You can only delete your own time entries" });
+  }
+
+  const { error } = await supabase
+    .from("time_entries")
+    .delete()
+    .eq("entry_id", entryId);
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Time entry deleted successfully" });
+};
+
+/**
+ * Get the current user's running timer, if any
+ */
+export const getRunningTimer = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data, error } = await supabase
+    .from("time_entries")
+    .select(`${TIME_ENTRY_SELECT}, tasks:task_id(title, project_uuid)`)
+    .eq("user_id", userId)
+    .is("ended_at", null)
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({
+    success: true,
+    entry: data ? { ...formatEntry(data), task: (data as any).tasks || null } : null,
+  });
+};
+
+/**
+ * Time report over a date range
+ * Totals finished entries per task, per project and per user, limited to
+ * projects the caller belongs to. Query: from, to (YYYY-MM-DD, inclusive),
+ * optional projectUuid and userId.
+ */
+export const getTimeReport = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const from = req.query.from ? String(req.query.from) : undefined;
+  const to = req.query.to ? String(req.query.to) : undefined;
+  const projectUuid = req.query.projectUuid ? String(req.query.projectUuid) : undefined;
+  const filterUserId = req.query.userId ? Number(req.query.userId) : undefined;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  if (!from || !to || !isValidDate(from) || !isValidDate(to)) {
+    return res.status(400).json({ success: false, message: "from and to dates are required (YYYY-MM-DD)" });
+  }
+
+  if (filterUserId !== undefined && isNaN(filterUserId)) {
+    return res.status(400).json({ success: false, message: "Invalid user ID" });
+  }
+
+  // Projects the user has access to
+  const { data: userProjects } = await supabase
+    .from("project_members")
+    .select("project_uuid")
+    .eq("user_id", userId);
+
+  const { data: ownedProjects } = await supabase
+    .from("projects")
+    .select("project_uuid")
+    .eq("owner_id", userId);
+
+  const projectUuids = new Set<string>();
+  userProjects?.forEach(p => projectUuids.add(p.project_uuid));
+  ownedProjects?.forEach(p => projectUuids.add(p.project_uuid));
+
+  if (projectUuid && !projectUuids.has(projectUuid)) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. You are not a member of this project."
+    });
+  }
+
+  const scope = projectUuid ? [projectUuid] : Array.from(projectUuids);
+
+  if (scope.length === 0) {
+    return res.json({
+      success: true,
+      report: { from, to, totalSeconds: 0, byTask: [], byProject: [], byUser: [] },
+    });
+  }
+
+  // `to` is inclusive: entries started before the next day
+  const toExclusive = new Date(`${to}T00:00:00Z`);
+  toExclusive.setUTCDate(toExclusive.getUTCDate() + 1);
+
+  let query = supabase
+    .from("time_entries")
+    .select(`
+      task_id,
+      user_id,
+      duration_seconds,
+      tasks!inner(title, project_uuid, projects:project_uuid(name)),
+      users:user_id(name, email)
+    `)
+    .in("tasks.project_uuid", scope)
+    .is("tasks.deleted_at", null)
+    .not("duration_seconds", "is", null)
+    .gte("started_at", `${from}T00:00:00Z`)
+    .lt("started_at", toExclusive.toISOString());
+
+  if (filterUserId !== undefined) {
+    query = query.eq("user_id", filterUserId);
+  }
+
+  const { data: entries, error } = await query;
+
+  if (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const byTask = new Map<number, any>();
+  const byProject = new Map<string, any>();
+  const byUser = new Map<number, any>();
+  let totalSeconds = 0;
+
+  for (const entry of entries || []) {
+    const seconds = entry.duration_seconds || 0;
+    const task = (entry as any).tasks;
+    const user = (entry as any).users;
+    totalSeconds += seconds;
+
+    if (!byTask.has(entry.task_id)) {
+      byTask.set(entry.task_id, {
+        task_id: entry.task_id,
+        title: task?.title,
+        project_uuid: task?.project_uuid,
+        totalSeconds: 0,
+      });
+    }
+    byTask.get(entry.task_id).totalSeconds += seconds;
+
+    if (task?.project_uuid) {
+      if (!byProject.has(task.project_uuid)) {
+        byProject.set(task.project_uuid, {
+          project_uuid: task.project_uuid,
+          name: task.projects?.name,
+          totalSeconds: 0,
+        });
+      }
+      byProject.get(task.project_uuid).totalSeconds += seconds;
+    }
+
+    if (!byUser.has(entry.user_id)) {
+      byUser.set(entry.user_id, {
+        user_id: entry.user_id,
+        name: user?.name,
+        email: user?.email,
+        totalSeconds: 0,
+      });
+    }
+    byUser.get(entry.user_id).totalSeconds += seconds;
+  }
+
+  const byTotalDesc = (a: any, b: any) => b.totalSeconds - a.totalSeconds;
+
+  return res.json({
+    success: true,
+    report: {
+      from,
+      to,
+      totalSeconds,
+      byTask: Array.from(byTask.values()).sort(byTotalDesc),
+      byProject: Array.from(byProject.values()).sort(byTotalDesc),
+      byUser: Array.from(byUser.values()).sort(byTotalDesc),
+    },
+  });
+};
@@ -0,0 +1,188 @@
+import type { Request, Response } from "express";
+import { env } from "../config/env";
+import { supabase } from "../config/supabaseClient";
+import { getPurgeAt, restoreProject, restoreTask } from "../services/trashService";
+
+/**
+ * List the trash of the projects the caller owns
+ * Tasks trashed along with their project or parent task are restored with it
+ * and aren't listed separately.
+ */
+export const listTrash = async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: ownedProjects, error: projectsError } = await supabase
+    .from("projects")
+    .select("project_uuid, name, description, deleted_at, deleted_by, users:deleted_by(name, email)")
+    .eq("owner_id", userId);
+
+  if (projectsError) {
+    return res.status(400).json({ success: false, error: projectsError });
+  }
+
+  const trashedProjects = (ownedProjects || [])
+    .filter(p => p.deleted_at)
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+  const liveProjectUuids = (ownedProjects || []).filter(p => !p.deleted_at).map(p => p.project_uuid);
+
+  let trashedTasks: any[] = [];
+
+  if (liveProjectUuids.length > 0) {
+    const { data: tasks, error: tasksError } = await supabase
+      .from("tasks")
+      .select(`
+        task_id,
+        project_uuid,
+        title,
+        status,
+        parent_task_id,
+        deleted_at,
+        deleted_by,
+        users:deleted_by(name, email),
+        parent:parent_task_id(deleted_at)
+      `)
+      .in("project_uuid", liveProjectUuids)
+      .not("deleted_at", "is", null)
+      .order("deleted_at", { ascending: false });
+
+    if (tasksError) {
+      return res.status(400).json({ success: false, error: tasksError });
+    }
+
+    trashedTasks = (tasks || []).filter(t => (t as any).parent?.deleted_at !== t.deleted_at);
+  }
+
+  return res.json({
+    success: true,
+    retentionDays: env.TRASH_RETENTION_DAYS,
+    projects: trashedProjects.map(p => ({
+      project_uuid: p.project_uuid,
+      name: p.name,
+      description: p.description,
+      deleted_at: p.deleted_at,
+      deleted_by: p.deleted_by,
+      deleter: (p as any).users || null,
+      purge_at: getPurgeAt(p.deleted_at),
+    })),
+    tasks: trashedTasks.map(t => ({
+      task_id: t.task_id,
+      project_uuid: t.project_uuid,
+      title: t.title,
+      status: t.status,
+      parent_task_id: t.parent_task_id,
+      deleted_at: t.deleted_at,
+      deleted_by: t.deleted_by,
+      deleter: t.users || null,
+      purge_at: getPurgeAt(t.deleted_at),
+    })),
+  });
+};
+
+/**
+ * Restore a trashed project and the tasks deleted with it (project owner only)
+ */
+export const restoreTrashedProject = async (req: Request, res: Response) => {
+  const projectUuid = req.params.projectId;
+  const userId = req.user?.userId;
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: project } = await supabase
+    .from("projects")
+    .select("project_uuid, owner_id, deleted_at")
+    .eq("project_uuid", projectUuid)
+    .not("deleted_at", "is", null)
+    .single();
+
+  if (!project) {
+    return res.status(404).json({ success: false, message: "Project not found in trash" });
+  }
+
+  if (project.owner_id !== userId) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. Only the project owner can restore it."
+    });
+  }
+
+  // Past the retention window it is only waiting for the cleanup job
+  if (new Date(getPurgeAt(project.deleted_at)) <= new Date()) {
+    return res.status(410).json({ success: false, message: "Project can no longer be restored" });
+  }
+
+  try {
+    await restoreProject(projectUuid, project.deleted_at);
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Project restored successfully" });
+};
+
+/**
+ * Restore a trashed task and the subtasks deleted with it (project owner only)
+ */
+export const restoreTrashedTask = async (req: Request, res: Response) => {
+  const taskId = Number(req.params.taskId);
+  const userId = req.user?.userId;
+
+  if (isNaN(taskId)) {
+    return res.status(400).json({ success: false, message: "Invalid task ID" });
+  }
+
+  if (!userId) {
+    return res.status(401).json({ success: false, message: "User not authenticated" });
+  }
+
+  const { data: task } = await supabase
+    .from("tasks")
+    .select(`
+      task_id,
+      deleted_at,
+      projects:project_uuid(owner_id, deleted_at),
+      parent:parent_task_id(deleted_at)
+    `)
+    .eq("task_id", taskId)
+    .not("deleted_at", "is", null)
+    .single();
+
+  if (!task) {
+    return res.status(404).json({ success: false, message: "Task not found in trash" });
+  }
+
+  const project = (task as any).projects;
+
+  if (project?.owner_id !== userId) {
+    return res.status(403).json({
+      success: false,
+      message: "Access denied. Only the project owner can restore tasks."
+    });
+  }
+
+  if (project.deleted_at) {
+    return res.status(409).json({ success: false, message: "Restore the task's project first" });
+  }
+
+  if ((task as any).parent?.deleted_at) {
+    return res.status(409).json({ success: false, message: "Restore the parent task first" });
+  }
+
+  if (new Date(getPurgeAt(task.deleted_at)) <= new Date()) {
+    return res.status(410).json({ success: false, message: "Task can no longer be restored" });
+  }
+
+  let restoredTaskIds: number[];
+  try {
+    restoredTaskIds = await restoreTask(taskId, task.deleted_at);
+  } catch (error) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  return res.json({ success: true, message: "Task restored successfully", restoredTaskIds });
+};
@@ -1,6 +1,7 @@
 import { clerkClient } from "@clerk/clerk-sdk-node";
 import type { Request, Response } from "express";
 import { supabase } from "../config/supabaseClient";
+import { isValidTimeZone } from "../services/taskScheduleService";
 import type { CreateUserRequest, UpdateUserRequest, User } from "../types/database";
 //usersController.ts
 /**
@@ -9,7 +10,7 @@ import type { CreateUserRequest, UpdateUserRequest, User } from "../types/databa
 export const listUsers = async (_req: Request, res: Response) => {
   const { data, error } = await supabase
     .from("users")
-    .select("user_id, clerk_user_id, name, email, avatar_url, created_at, updated_at")
+    .select("user_id, clerk_user_id, name, email, avatar_url, time_zone, created_at, updated_at")
     .order("user_id", { ascending: true });
 
   if (error) {
@@ -30,7 +31,7 @@ export const getUserById = async (req: Request, res: Response) => {
 
   const { data, error } = await supabase
     .from("users")
-    .select("user_id, clerk_user_id, name, email, avatar_url, created_at, updated_at")
+    .select("user_id, clerk_user_id, name, email, avatar_url, time_zone, created_at, updated_at")
     .eq("user_id", id)
     .single();
 
@@ -49,7 +50,7 @@ export const getUserByClerkId = async (req: Request, res: Response) => {
 
   const { data, error } = await supabase
     .from("users")
-    .select("user_id, clerk_user_id, name, email, avatar_url, created_at, updated_at")
+    .select("user_id, clerk_user_id, name, email, avatar_url, time_zone, created_at, updated_at")
     .eq("clerk_user_id", clerkId)
     .single();
 
@@ -107,7 +108,7 @@ export const createUser = async (req: Request, res: Response) => {
       email: body.email.toLowerCase(),
       avatar_url: body.avatar_url || null,
     })
-    .select("user_id, clerk_user_id, name, email, avatar_url, created_at, updated_at")
+    .select("user_id, clerk_user_id, name, email, avatar_url, time_zone, created_at, updated_at")
     .single();
 
   if (error) {
@@ -144,6 +145,16 @@ export const updateUser = async (req: Request, res: Response) => {
   if (body.email !== undefined) patch.email = body.email.toLowerCase();
   if (body.avatar_url !== undefined) patch.avatar_url = body.avatar_url;
 
+  if (body.time_zone !== undefined) {
+    if (body.time_zone !== null && !isValidTimeZone(body.time_zone)) {
+      return res.status(400).json({
+        success: false,
+        message: "time_zone must be an IANA time zone name, e.g. Europe/Berlin"
+      });
+    }
+    patch.time_zone = body.time_zone;
+  }
+
   if (Object.keys(patch).length === 0) {
     return res.status(400).json({ 
       success: false, 
@@ -155,7 +166,7 @@ export const updateUser = async (req: Request, res: Response) => {
     .from("users")
     .update(patch)
     .eq("user_id", id)
-    .select("user_id, clerk_user_id, name, email, avatar_url, created_at, updated_at")
+    .select("user_id, clerk_user_id, name, email, avatar_url, time_zone, created_at, updated_at")
     .single();
 
   if (error) {
@@ -232,7 +243,7 @@ export const getCurrentUser = async (req: Request, res: Response) => {
 
   const { data, error } = await supabase
     .from("users")
-    .select("user_id, clerk_user_id, name, email, avatar_url, created_at, updated_at")
+    .select("user_id, clerk_user_id, name, email, avatar_url, time_zone, created_at, updated_at")
     .eq("user_id", userId)
     .single();
 
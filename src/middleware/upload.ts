@@ -0,0 +1,26 @@
+import type { Request, Response, NextFunction } from "express";
+import multer from "multer";
+import { env } from "../config/env";
+
+// Files are kept in memory and handed to the storage backend by the controller
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: env.ATTACHMENT_MAX_BYTES, files: 1 },
+});
+
+/**
+ * Parses a single multipart file from the "file" field
+ * Multer errors become 400/413 responses instead of reaching the error handler as 500s
+ */
+export const uploadSingleFile = (req: Request, res: Response, next: NextFunction) => {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      return res.status(status).json({ success: false, message: err.message, code: err.code });
+    }
+    if (err) {
+      return next(err);
+    }
+    next();
+  });
+};
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/asyncHandler";
+import { clerkAuthenticate } from "../middleware/clerkAuth";
+import { deleteAttachment, downloadAttachment } from "../controllers/attachmentsController";
+
+const router = Router();
+
+// All attachment routes require authentication
+router.use(clerkAuthenticate);
+
+router.get("/:attachmentId/download", asyncHandler(downloadAttachment));
+router.delete("/:attachmentId", asyncHandler(deleteAttachment));
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/asyncHandler";
+import { clerkAuthenticate } from "../middleware/clerkAuth";
+import {
+  addEpicTasks,
+  createEpic,
+  deleteEpic,
+  getEpicById,
+  listEpics,
+  removeEpicTask,
+  updateEpic,
+} from "../controllers/epicsController";
+
+const router = Router();
+
+// All epic routes require authentication
+router.use(clerkAuthenticate);
+
+router.get("/", asyncHandler(listEpics));
+router.post("/", asyncHandler(createEpic));
+router.get("/:epicId", asyncHandler(getEpicById));
+router.put("/:epicId", asyncHandler(updateEpic));
+router.delete("/:epicId", asyncHandler(deleteEpic));
+
+// Epic tasks (from any project)
+router.post("/:epicId/tasks", asyncHandler(addEpicTasks));
+router.delete("/:epicId/tasks/:taskId", asyncHandler(removeEpicTask));
+
+export default router;
@@ -1,9 +1,15 @@
 import { Router } from "express";
 import calendarRoutes from "./calendar.routes";
 import aiRoutes from "./ai.routes";
+import attachmentsRoutes from "./attachments.routes";
 import dashboardRoutes from "./dashboard.routes";
+import epicsRoutes from "./epics.routes";
+import notificationsRoutes from "./notifications.routes";
 import projectsRoutes from "./projects.routes";
+import searchRoutes from "./search.routes";
 import tasksRoutes from "./tasks.routes";
+import timeEntriesRoutes from "./timeEntries.routes";
+import trashRoutes from "./trash.routes";
 import usersRoutes from "./users.routes";
 
 const router = Router();
@@ -12,9 +18,15 @@ const router = Router();
 router.use("/users", usersRoutes);
 router.use("/projects", projectsRoutes);
 router.use("/tasks", tasksRoutes);
+router.use("/time-entries", timeEntriesRoutes);
+router.use("/attachments", attachmentsRoutes);
 router.use("/calendar", calendarRoutes);
 router.use("/ai", aiRoutes);
 router.use("/dashboard", dashboardRoutes);
+router.use("/search", searchRoutes);
+router.use("/notifications", notificationsRoutes);
+router.use("/trash", trashRoutes);
+router.use("/epics", epicsRoutes);
 
 export default router;
 
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/asyncHandler";
+import { clerkAuthenticate } from "../middleware/clerkAuth";
+import {
+  listNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+} from "../controllers/notificationsController";
+
+const router = Router();
+
+// All notification routes require authentication
+router.use(clerkAuthenticate);
+
+router.get("/", asyncHandler(listNotifications));
+router.post("/read-all", asyncHandler(markAllNotificationsRead));
+router.post("/:notificationId/read", asyncHandler(markNotificationRead));
+
+export default router;
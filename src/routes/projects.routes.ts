@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { asyncHandler } from "../lib/asyncHandler";
 import { clerkAuthenticate } from "../middleware/clerkAuth";
+import { uploadSingleFile } from "../middleware/upload";
 import {
   addProjectMember,
   createProject,
@@ -17,6 +18,55 @@ import {
   removeProjectMember,
   bulkAddProjectMembers,
 } from "../controllers/projectMembersController";
+import {
+  listProjectTaskStatuses,
+  updateProjectTaskStatuses,
+} from "../controllers/taskStatusesController";
+import { getProjectBoard, moveBoardCard } from "../controllers/boardController";
+import {
+  createProjectLabel,
+  deleteProjectLabel,
+  listProjectLabels,
+  updateProjectLabel,
+} from "../controllers/labelsController";
+import {
+  createTaskFromTemplate,
+  createTaskTemplate,
+  deleteTaskTemplate,
+  listTaskTemplates,
+  updateTaskTemplate,
+} from "../controllers/taskTemplatesController";
+import { listProjectAttachments, uploadProjectAttachment } from "../controllers/attachmentsController";
+import {
+  createProjectMilestone,
+  deleteProjectMilestone,
+  getProjectMilestone,
+  listProjectMilestones,
+  updateProjectMilestone,
+} from "../controllers/milestonesController";
+import {
+  addSprintTasks,
+  closeProjectSprint,
+  createProjectSprint,
+  deleteProjectSprint,
+  getProjectSprint,
+  listProjectSprints,
+  removeSprintTask,
+  startProjectSprint,
+  updateProjectSprint,
+} from "../controllers/sprintsController";
+import {
+  createProjectCustomField,
+  deleteProjectCustomField,
+  listProjectCustomFields,
+  updateProjectCustomField,
+} from "../controllers/customFieldsController";
+import {
+  commitTaskImport,
+  createTaskImport,
+  getTaskImport,
+  updateTaskImportMapping,
+} from "../controllers/taskImportsController";
 
 const router = Router();
 
@@ -37,6 +87,61 @@ router.post("/:projectId/members/bulk", asyncHandler(bulkAddProjectMembers));
 router.put("/:projectId/members/:memberId", asyncHandler(updateProjectMember));
 router.delete("/:projectId/members/:memberId", asyncHandler(removeProjectMember));
 
+// Project task workflow
+router.get("/:projectId/task-statuses", asyncHandler(listProjectTaskStatuses));
+router.put("/:projectId/task-statuses", asyncHandler(updateProjectTaskStatuses));
+
+// Kanban board
+router.get("/:projectId/board", asyncHandler(getProjectBoard));
+router.post("/:projectId/board/move", asyncHandler(moveBoardCard));
+
+// Project labels
+router.get("/:projectId/labels", asyncHandler(listProjectLabels));
+router.post("/:projectId/labels", asyncHandler(createProjectLabel));
+router.put("/:projectId/labels/:labelId", asyncHandler(updateProjectLabel));
+router.delete("/:projectId/labels/:labelId", asyncHandler(deleteProjectLabel));
+
+// Project milestones
+router.get("/:projectId/milestones", asyncHandler(listProjectMilestones));
+router.post("/:projectId/milestones", asyncHandler(createProjectMilestone));
+router.get("/:projectId/milestones/:milestoneId", asyncHandler(getProjectMilestone));
+router.put("/:projectId/milestones/:milestoneId", asyncHandler(updateProjectMilestone));
+router.delete("/:projectId/milestones/:milestoneId", asyncHandler(deleteProjectMilestone));
+
+// Project sprints
+router.get("/:projectId/sprints", asyncHandler(listProjectSprints));
+router.post("/:projectId/sprints", asyncHandler(createProjectSprint));
+router.get("/:projectId/sprints/:sprintId", asyncHandler(getProjectSprint));
+router.put("/:projectId/sprints/:sprintId", asyncHandler(updateProjectSprint));
+router.delete("/:projectId/sprints/:sprintId", asyncHandler(deleteProjectSprint));
+router.post("/:projectId/sprints/:sprintId/tasks", asyncHandler(addSprintTasks));
+router.delete("/:projectId/sprints/:sprintId/tasks/:taskId", asyncHandler(removeSprintTask));
+router.post("/:projectId/sprints/:sprintId/start", asyncHandler(startProjectSprint));
+router.post("/:projectId/sprints/:sprintId/close", asyncHandler(closeProjectSprint));
+
+// Task custom fields
+router.get("/:projectId/custom-fields", asyncHandler(listProjectCustomFields));
+router.post("/:projectId/custom-fields", asyncHandler(createProjectCustomField));
+router.put("/:projectId/custom-fields/:fieldId", asyncHandler(updateProjectCustomField));
+router.delete("/:projectId/custom-fields/:fieldId", asyncHandler(deleteProjectCustomField));
+
+// Task templates
+router.get("/:projectId/task-templates", asyncHandler(listTaskTemplates));
+router.post("/:projectId/task-templates", asyncHandler(createTaskTemplate));
+router.put("/:projectId/task-templates/:templateId", asyncHandler(updateTaskTemplate));
+router.delete("/:projectId/task-templates/:templateId", asyncHandler(deleteTaskTemplate));
+router.post("/:projectId/task-templates/:templateId/tasks", asyncHandler(createTaskFromTemplate));
+
+// CSV task imports (upload, preview, commit)
+router.post("/:projectId/task-imports", uploadSingleFile, asyncHandler(createTaskImport));
+router.get("/:projectId/task-imports/:importId", asyncHandler(getTaskImport));
+router.put("/:projectId/task-imports/:importId", asyncHandler(updateTaskImportMapping));
+router.post("/:projectId/task-imports/:importId/commit", asyncHandler(commitTaskImport));
+
+// Project attachments
+router.get("/:projectId/attachments", asyncHandler(listProjectAttachments));
+router.post("/:projectId/attachments", uploadSingleFile, asyncHandler(uploadProjectAttachment));
+
 // Legacy routes (for backward compatibility)
 router.post("/:projectId/invites", asyncHandler(sendProjectInvites));
 
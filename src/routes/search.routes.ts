@@ -0,0 +1,13 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/asyncHandler";
+import { clerkAuthenticate } from "../middleware/clerkAuth";
+import { search } from "../controllers/searchController";
+
+const router = Router();
+
+// Search requires authentication
+router.use(clerkAuthenticate);
+
+router.get("/", asyncHandler(search));
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { asyncHandler } from "../lib/asyncHandler";
 import { clerkAuthenticate } from "../middleware/clerkAuth";
+import { uploadSingleFile } from "../middleware/upload";
 import {
   assignUserToTask,
   createTask,
@@ -8,9 +9,40 @@ import {
   getTaskById,
   listTaskAssignments,
   listTasks,
+  moveTask,
   updateTask,
   unassignUserFromTask,
 } from "../controllers/tasksController";
+import {
+  createTaskComment,
+  deleteTaskComment,
+  listTaskComments,
+  updateTaskComment,
+} from "../controllers/taskCommentsController";
+import {
+  createChecklistItem,
+  deleteChecklistItem,
+  listChecklistItems,
+  updateChecklistItem,
+} from "../controllers/taskChecklistController";
+import {
+  addTaskDependency,
+  listTaskDependencies,
+  removeTaskDependency,
+} from "../controllers/taskDependenciesController";
+import { addLabelToTask, removeLabelFromTask } from "../controllers/labelsController";
+import {
+  createTimeEntry,
+  deleteTimeEntry,
+  listTaskTimeEntries,
+  startTaskTimer,
+  stopTaskTimer,
+  updateTimeEntry,
+} from "../controllers/timeEntriesController";
+import { listTaskAttachments, uploadTaskAttachment } from "../controllers/attachmentsController";
+import { bulkUpdateTasks } from "../controllers/taskBulkController";
+import { listTaskActivity } from "../controllers/taskActivityController";
+import { listTaskWatchers, unwatchTask, watchTask } from "../controllers/taskWatchersController";
 
 const router = Router();
 
@@ -20,13 +52,57 @@ router.use(clerkAuthenticate);
 // Task CRUD
 router.get("/", asyncHandler(listTasks));
 router.post("/", asyncHandler(createTask));
+router.post("/bulk", asyncHandler(bulkUpdateTasks));
 router.get("/:taskId", asyncHandler(getTaskById));
 router.put("/:taskId", asyncHandler(updateTask));
 router.delete("/:taskId", asyncHandler(deleteTask));
+router.post("/:taskId/move", asyncHandler(moveTask));
 
 // Task assignments
 router.get("/:taskId/assignments", asyncHandler(listTaskAssignments));
 router.post("/:taskId/assignments", asyncHandler(assignUserToTask));
 router.delete("/:taskId/assignments/:userId", asyncHandler(unassignUserFromTask));
 
+// Task activity history
+router.get("/:taskId/activity", asyncHandler(listTaskActivity));
+
+// Task watchers
+router.get("/:taskId/watchers", asyncHandler(listTaskWatchers));
+router.post("/:taskId/watch", asyncHandler(watchTask));
+router.delete("/:taskId/watch", asyncHandler(unwatchTask));
+
+// Task checklist
+router.get("/:taskId/checklist", asyncHandler(listChecklistItems));
+router.post("/:taskId/checklist", asyncHandler(createChecklistItem));
+router.put("/:taskId/checklist/:itemId", asyncHandler(updateChecklistItem));
+router.delete("/:taskId/checklist/:itemId", asyncHandler(deleteChecklistItem));
+
+// Task dependencies
+router.get("/:taskId/dependencies", asyncHandler(listTaskDependencies));
+router.post("/:taskId/dependencies", asyncHandler(addTaskDependency));
+router.delete("/:taskId/dependencies/:blockerTaskId", asyncHandler(removeTaskDependency));
+
+// Task labels
+router.post("/:taskId/labels", asyncHandler(addLabelToTask));
+router.delete("/:taskId/labels/:labelId", asyncHandler(removeLabelFromTask));
+
+// Time tracking
+router.get("/:taskId/time-entries", asyncHandler(listTaskTimeEntries));
+router.post("/:taskId/time-entries", asyncHandler(createTimeEntry));
+router.post("/:taskId/time-entries/start", asyncHandler(startTaskTimer));
+router.post("/:taskId/time-entries/stop", asyncHandler(stopTaskTimer));
+router.put("/:taskId/time-entries/:entryId", asyncHandler(updateTimeEntry));
+router.delete("/:taskId/time-entries/:entryId", asyncHandler(deleteTimeEntry));
+
+// Task attachments
+router.get("/:taskId/attachments", asyncHandler(listTaskAttachments));
+router.post("/:taskId/attachments", uploadSingleFile, asyncHandler(uploadTaskAttachment));
+
+// Task comments
+router.get("/:taskId/comments", asyncHandler(listTaskComments));
+router.post("/:taskId/comments", asyncHandler(createTaskComment));
+router.post("/:taskId/comments/:commentId/replies", asyncHandler(createTaskComment));
+router.put("/:taskId/comments/:commentId", asyncHandler(updateTaskComment));
+router.delete("/:taskId/comments/:commentId", asyncHandler(deleteTaskComment));
+
 export default router;
@@ -0,0 +1,14 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/asyncHandler";
+import { clerkAuthenticate } from "../middleware/clerkAuth";
+import { getRunningTimer, getTimeReport } from "../controllers/timeEntriesController";
+
+const router = Router();
+
+// All time tracking routes require authentication
+router.use(clerkAuthenticate);
+
+router.get("/running", asyncHandler(getRunningTimer));
+router.get("/report", asyncHandler(getTimeReport));
+
+export default router;
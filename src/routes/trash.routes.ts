@@ -0,0 +1,15 @@
+import { Router } from "express";
+import { asyncHandler } from "../lib/asyncHandler";
+import { clerkAuthenticate } from "../middleware/clerkAuth";
+import { listTrash, restoreTrashedProject, restoreTrashedTask } from "../controllers/trashController";
+
+const router = Router();
+
+// All trash routes require authentication
+router.use(clerkAuthenticate);
+
+router.get("/", asyncHandler(listTrash));
+router.post("/projects/:projectId/restore", asyncHandler(restoreTrashedProject));
+router.post("/tasks/:taskId/restore", asyncHandler(restoreTrashedTask));
+
+export default router;
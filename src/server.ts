@@ -1,5 +1,6 @@
 import { createApp } from "./app";
 import { env } from "./config/env";
+import { purgeExpiredTrash } from "./services/trashService";
 
 const app = createApp();
 
@@ -16,10 +17,29 @@ server.timeout = 30000; // 30 seconds
 server.keepAliveTimeout = 65000; // 65 seconds (slightly longer than typical load balancer)
 server.headersTimeout = 66000; // 66 seconds (must be > keepAliveTimeout)
 
+// Cleanup job: permanently delete projects and tasks past the trash retention window
+const runTrashPurge = () => {
+  purgeExpiredTrash()
+    .then(({ projects, tasks }) => {
+      if (projects > 0 || tasks > 0) {
+        console.log(`🗑️  Purged ${projects} project(s) and ${tasks} task(s) from the trash`);
+      }
+    })
+    .catch((error) => console.error("❌ Trash purge failed:", error));
+};
+
+const trashPurgeTimer = env.TRASH_PURGE_INTERVAL_MINUTES > 0
+  ? setInterval(runTrashPurge, env.TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000)
+  : null;
+
 // Graceful shutdown handling
 const gracefulShutdown = (signal: string) => {
   console.log(`\n${signal} received. Starting graceful shutdown...`);
 
+  if (trashPurgeTimer) {
+    clearInterval(trashPurgeTimer);
+  }
+
   // Stop accepting new connections
   server.close(() => {
     console.log("✅ HTTP server closed");
@@ -0,0 +1,102 @@
+import { supabase } from "../config/supabaseClient";
+import type { TaskActivityField } from "../types/database";
+
+export interface TaskFieldChange {
+  field: TaskActivityField;
+  old_value: unknown;
+  new_value: unknown;
+}
+
+// Fields whose changes are recorded when they are updated directly on the task
+const TRACKED_TASK_FIELDS: TaskActivityField[] = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "start_date",
+  "due_date",
+  "start_at",
+  "due_at",
+  "milestone_id",
+];
+
+/**
+ * Compare a task before and after an update
+ * Only tracked fields present in the update and actually changed are returned.
+ */
+export const diffTaskFields = (
+  before: Record<string, any>,
+  update: Record<string, any>
+): TaskFieldChange[] =>
+  TRACKED_TASK_FIELDS
+    .filter(field => field in update && (update[field] ?? null) !== (before[field] ?? null))
+    .map(field => ({ field, old_value: before[field] ?? null, new_value: update[field] ?? null }));
+
+/**
+ * Compare two assignee lists, ignoring order
+ */
+export const diffAssignees = (before: number[], after: number[]): TaskFieldChange[] => {
+  const oldIds = Array.from(new Set(before)).sort((a, b) => a - b);
+  const newIds = Array.from(new Set(after)).sort((a, b) => a - b);
+
+  return oldIds.join(",") === newIds.join(",")
+    ? []
+    : [{ field: "assignees", old_value: oldIds, new_value: newIds }];
+};
+
+/**
+ * Append changes to a task's activity history
+ * Failures are logged so they never fail the update itself.
+ */
+export const recordTaskActivity = async (
+  taskId: number,
+  actorId: number,
+  changes: TaskFieldChange[]
+): Promise<void> => {
+  if (changes.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("task_activity")
+    .insert(changes.map(change => ({ task_id: taskId, actor_id: actorId, ...change })));
+
+  if (error) {
+    console.error("Failed to record task activity:", error);
+  }
+};
+
+/**
+ * Record that a task was created, with the title and status it started with
+ */
+export const recordTaskCreated = async (
+  task: { task_id: number; title: string; status: string },
+  actorId: number
+): Promise<void> => {
+  await recordTaskActivity(task.task_id, actorId, [
+    { field: "created", old_value: null, new_value: { title: task.title, status: task.status } },
+  ]);
+};
+
+/**
+ * Record the assignee list change after one user was assigned or unassigned
+ * The list before the change is derived from the current assignments.
+ */
+export const recordAssigneeChange = async (
+  taskId: number,
+  actorId: number,
+  change: { added?: number; removed?: number }
+): Promise<void> => {
+  const { data: assignments } = await supabase
+    .from("task_assignments")
+    .select("user_id")
+    .eq("task_id", taskId);
+
+  const current = (assignments || []).map(a => a.user_id);
+  const before = current.filter(id => id !== change.added);
+  if (change.removed !== undefined) {
+    before.push(change.removed);
+  }
+
+  await recordTaskActivity(taskId, actorId, diffAssignees(before, current));
+};
@@ -0,0 +1,106 @@
+import { supabase } from "../config/supabaseClient";
+
+// Gap between neighbouring cards after a renumber
+export const RANK_STEP = 1024;
+
+// Below this gap a midpoint is no longer reliable and the column is renumbered
+const MIN_RANK_GAP = 1e-6;
+
+/**
+ * Rank that places a card at the bottom of a status column
+ */
+export const getEndOfColumnRank = async (projectUuid: string, status: string): Promise<number> => {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("board_rank")
+    .eq("project_uuid", projectUuid)
+    .eq("status", status)
+    .is("deleted_at", null)
+    .order("board_rank", { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw error;
+  }
+
+  return data && data.length > 0 ? Number(data[0].board_rank) + RANK_STEP : RANK_STEP;
+};
+
+/**
+ * Renumber a column so cards are RANK_STEP apart, keeping their order
+ * Trashed tasks keep their rank.
+ */
+const renumberColumn = async (projectUuid: string, status: string, excludeTaskId: number): Promise<void> => {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("task_id")
+    .eq("project_uuid", projectUuid)
+    .eq("status", status)
+    .is("deleted_at", null)
+    .neq("task_id", excludeTaskId)
+    .order("board_rank", { ascending: true })
+    .order("task_id", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const taskIds = (data || []).map((t) => t.task_id as number);
+
+  await Promise.all(
+    taskIds.map((taskId, index) =>
+      supabase
+        .from("tasks")
+        .update({ board_rank: (index + 1) * RANK_STEP })
+        .eq("task_id", taskId)
+    )
+  );
+};
+
+/**
+ * Rank that places a card at `position` (0-based) in a status column
+ * The card being moved is ignored when counting positions, so moving a card
+ * within its own column behaves like remove-then-insert.
+ */
+export const getRankForPosition = async (
+  projectUuid: string,
+  status: string,
+  position: number,
+  movingTaskId: number
+): Promise<number> => {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("task_id, board_rank")
+    .eq("project_uuid", projectUuid)
+    .eq("status", status)
+    .is("deleted_at", null)
+    .neq("task_id", movingTaskId)
+    .order("board_rank", { ascending: true })
+    .order("task_id", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  const column = (data || []).map((t) => Number(t.board_rank));
+  const index = Math.max(0, Math.min(position, column.length));
+
+  if (column.length === 0) {
+    return RANK_STEP;
+  }
+
+  if (index === column.length) {
+    return column[column.length - 1] + RANK_STEP;
+  }
+
+  const after = column[index];
+  const before = index > 0 ? column[index - 1] : after - 2 * RANK_STEP;
+
+  if (after - before > MIN_RANK_GAP) {
+    return (before + after) / 2;
+  }
+
+  // Neighbours are too close: spread the column out, then use the middle of the new gap
+  await renumberColumn(projectUuid, status, movingTaskId);
+  return index * RANK_STEP + RANK_STEP / 2;
+};
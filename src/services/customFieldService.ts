@@ -0,0 +1,298 @@
+import { supabase } from "../config/supabaseClient";
+import type { CustomFieldType, CustomFieldValues, ProjectCustomField } from "../types/database";
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = [
+  "text",
+  "number",
+  "date",
+  "single_select",
+  "multi_select",
+  "user",
+  "url",
+];
+export const SELECT_FIELD_TYPES: CustomFieldType[] = ["single_select", "multi_select"];
+
+const MAX_TEXT_LENGTH = 2000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A validated value to write, or a field whose value is cleared
+export interface CustomFieldChange {
+  field_id: number;
+  value: string | number | string[] | null;
+}
+
+/**
+ * Custom fields of a project in display order
+ */
+export const getProjectCustomFields = async (projectUuid: string): Promise<ProjectCustomField[]> => {
+  const { data, error } = await supabase
+    .from("project_custom_fields")
+    .select("*")
+    .eq("project_uuid", projectUuid)
+    .order("position", { ascending: true })
+    .order("field_id", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Owner and member IDs of a project, for user fields
+ */
+const getProjectUserIds = async (projectUuid: string): Promise<Set<number>> => {
+  const [{ data: project }, { data: members }] = await Promise.all([
+    supabase.from("projects").select("owner_id").eq("project_uuid", projectUuid).single(),
+    supabase.from("project_members").select("user_id").eq("project_uuid", projectUuid),
+  ]);
+
+  const userIds = new Set<number>((members || []).map(m => m.user_id));
+  if (project) {
+    userIds.add(project.owner_id);
+  }
+  return userIds;
+};
+
+/**
+ * Check one value against its field's type
+ * Returns the value in its stored shape, or an error message.
+ */
+const parseCustomFieldValue = (
+  field: ProjectCustomField,
+  value: unknown,
+  projectUserIds: Set<number>
+): { value?: string | number | string[]; error?: string } => {
+  const label = `Custom field "${field.name}"`;
+
+  switch (field.field_type) {
+    case "text": {
+      if (typeof value !== "string") return { error: `${label} must be text` };
+      const text = value.trim();
+      if (text.length > MAX_TEXT_LENGTH) {
+        return { error: `${label} must be at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      return { value: text };
+    }
+
+    case "number": {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof number !== "number" || !isFinite(number)) return { error: `${label} must be a number` };
+      return { value: number };
+    }
+
+    case "date": {
+      if (
+        typeof value !== "string" ||
+        !DATE_PATTERN.test(value) ||
+        isNaN(Date.parse(`${value}T00:00:00Z`))
+      ) {
+        return { error: `${label} must be a date (YYYY-MM-DD)` };
+      }
+      return { value };
+    }
+
+    case "single_select": {
+      if (typeof value !== "string" || !field.options.includes(value)) {
+        return { error: `${label} must be one of: ${field.options.join(", ")}` };
+      }
+      return { value };
+    }
+
+    case "multi_select": {
+      if (!Array.isArray(value) || value.some(v => typeof v !== "string" || !field.options.includes(v))) {
+        return { error: `${label} must be a list of: ${field.options.join(", ")}` };
+      }
+      return { value: Array.from(new Set(value as string[])) };
+    }
+
+    case "user": {
+      const userId = Number(value);
+      if (!Number.isInteger(userId) || !projectUserIds.has(userId)) {
+        return { error: `${label} must be the user ID of a project member` };
+      }
+      return { value: userId };
+    }
+
+    case "url": {
+      if (typeof value !== "string") return { error: `${label} must be a URL` };
+      try {
+        const url = new URL(value.trim());
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          return { error: `${label} must be an http(s) URL` };
+        }
+        return { value: url.toString() };
+      } catch {
+        return { error: `${label} must be a URL` };
+      }
+    }
+  }
+};
+
+/**
+ * Validate the custom_fields of a create/update request against the project's fields
+ * - Keys are field IDs of the project; null or "" clears a value
+ * - On create (`isNew`), required fields must be given
+ * Callers validating many tasks can pass the project's fields and user IDs in `preloaded`.
+ * Returns the changes to save or the first error.
+ */
+export const resolveCustomFieldValues = async (
+  projectUuid: string,
+  input: CustomFieldValues | undefined,
+  isNew: boolean,
+  preloaded: { fields?: ProjectCustomField[]; userIds?: Set<number> } = {}
+): Promise<{ changes?: CustomFieldChange[]; error?: string }> => {
+  if (input !== undefined && (input === null || typeof input !== "object" || Array.isArray(input))) {
+    return { error: "custom_fields must be an object keyed by field ID" };
+  }
+
+  const projectFields = preloaded.fields || await getProjectCustomFields(projectUuid);
+  const fieldsById = new Map(projectFields.map(f => [f.field_id, f]));
+  const entries = Object.entries(input || {});
+  const changes: CustomFieldChange[] = [];
+
+  const unknownField = entries.find(([key]) => !fieldsById.has(Number(key)));
+  if (unknownField) {
+    return { error: `Unknown custom field: ${unknownField[0]}` };
+  }
+
+  const projectUserIds = preloaded.userIds || (projectFields.some(f => f.field_type === "user")
+    ? await getProjectUserIds(projectUuid)
+    : new Set<number>());
+
+  for (const [key, rawValue] of entries) {
+    const field = fieldsById.get(Number(key))!;
+    const isEmpty = rawValue === null || rawValue === "" || (Array.isArray(rawValue) && rawValue.length === 0);
+
+    if (isEmpty) {
+      if (field.is_required) {
+        return { error: `Custom field "${field.name}" is required` };
+      }
+      changes.push({ field_id: field.field_id, value: null });
+      continue;
+    }
+
+    const { value, error } = parseCustomFieldValue(field, rawValue, projectUserIds);
+    if (error) {
+      return { error };
+    }
+    changes.push({ field_id: field.field_id, value: value! });
+  }
+
+  if (isNew) {
+    const given = new Set(changes.filter(c => c.value !== null).map(c => c.field_id));
+    const missing = projectFields.find(f => f.is_required && !given.has(f.field_id));
+    if (missing) {
+      return { error: `Custom field "${missing.name}" is required` };
+    }
+  }
+
+  return { changes };
+};
+
+/**
+ * Write validated custom field values of a task
+ */
+export const saveCustomFieldValues = async (taskId: number, changes: CustomFieldChange[]): Promise<void> => {
+  const cleared = changes.filter(c => c.value === null).map(c => c.field_id);
+  const values = changes.filter(c => c.value !== null);
+
+  if (cleared.length > 0) {
+    const { error } = await supabase
+      .from("task_custom_field_values")
+      .delete()
+      .eq("task_id", taskId)
+      .in("field_id", cleared);
+
+    if (error) throw error;
+  }
+
+  if (values.length > 0) {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from("task_custom_field_values")
+      .upsert(
+        values.map(c => ({ task_id: taskId, field_id: c.field_id, value: c.value, updated_at: now })),
+        { onConflict: "task_id,field_id" }
+      );
+
+    if (error) throw error;
+  }
+};
+
+/**
+ * Custom field values of the given tasks, as { [field_id]: value } per task
+ */
+export const getCustomFieldValues = async (taskIds: number[]): Promise<Map<number, CustomFieldValues>> => {
+  const valuesByTask = new Map<number, CustomFieldValues>();
+  if (taskIds.length === 0) return valuesByTask;
+
+  const { data: rows } = await supabase
+    .from("task_custom_field_values")
+    .select("task_id, field_id, value")
+    .in("task_id", taskIds);
+
+  rows?.forEach(row => {
+    if (!valuesByTask.has(row.task_id)) {
+      valuesByTask.set(row.task_id, {});
+    }
+    valuesByTask.get(row.task_id)![row.field_id] = row.value;
+  });
+
+  return valuesByTask;
+};
+
+// Match %, _ and \ literally in an ilike pattern
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, "\\$&");
+
+/**
+ * IDs of tasks matching every custom field filter ({ [field_id]: value })
+ * Text and URL fields match on a case-insensitive substring, multi-select
+ * fields when they include the value, other types on the exact value.
+ */
+export const findTasksByCustomFields = async (
+  filters: Record<string, string>
+): Promise<{ taskIds?: number[]; error?: string }> => {
+  const fieldIds = Object.keys(filters).map(Number);
+  if (fieldIds.some(isNaN)) {
+    return { error: "customFields filters must be keyed by field ID, e.g. customFields[12]=value" };
+  }
+
+  const { data: fields } = await supabase
+    .from("project_custom_fields")
+    .select("field_id, field_type")
+    .in("field_id", fieldIds);
+
+  const fieldsById = new Map((fields || []).map(f => [f.field_id, f]));
+  let matching: number[] | null = null;
+
+  for (const [key, value] of Object.entries(filters)) {
+    const field = fieldsById.get(Number(key));
+    if (!field) {
+      return { error: `Unknown custom field: ${key}` };
+    }
+
+    let query = supabase
+      .from("task_custom_field_values")
+      .select("task_id")
+      .eq("field_id", field.field_id);
+
+    if (field.field_type === "text" || field.field_type === "url") {
+      query = query.ilike("value_text", `%${escapeLikePattern(value)}%`);
+    } else if (field.field_type === "number" || field.field_type === "user") {
+      if (isNaN(Number(value))) {
+        return { error: `Filter on custom field ${key} must be a number` };
+      }
+      query = query.filter("value", "cs", JSON.stringify(Number(value)));
+    } else {
+      // A JSON array contains a plain value it holds, and a plain value contains itself
+      query = query.filter("value", "cs", JSON.stringify(value));
+    }
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+
+    const taskIds = new Set<number>((rows || []).map(r => r.task_id));
+    matching = (matching ?? Array.from(taskIds)).filter(id => taskIds.has(id));
+  }
+
+  return { taskIds: matching || [] };
+};
@@ -193,4 +193,75 @@ export const sendBatchProjectInvites = async (
     failed,
     results,
   };
-};
\ No newline at end of file
+};
+
+export interface TaskNotificationEmailData {
+  recipientEmail: string;
+  subject: string;
+  message: string; // plain text, escaped for the HTML part
+  taskTitle: string;
+  projectName: string;
+  taskId: number;
+  reason?: string; // footer line explaining why the email was sent
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Activity on a task the recipient watches or was mentioned in
+export const sendTaskNotificationEmail = async (data: TaskNotificationEmailData) => {
+  const { recipientEmail, subject, message, taskTitle, projectName, taskId } = data;
+  const reason = data.reason || "You're receiving this because you watch this task. Unwatch it to stop these emails.";
+  const taskLink = `${process.env.FRONTEND_URL}/tasks/${taskId}`;
+
+  const mailOptions = {
+    from: `"${process.env.APP_NAME || 'Project Manager'}" <${process.env.EMAIL_USER}>`,
+    to: recipientEmail,
+    subject,
+    html: `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="UTF-8" />
+          <title>${escapeHtml(subject)}</title>
+        </head>
+        <body style="margin: 0; padding: 0; background-color: #f6f8fa; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; color: #24292f;">
+          <div style="max-width: 640px; margin: 40px auto; padding: 0 16px;">
+            <div style="background: #ffffff; border: 1px solid #d0d7de; border-radius: 6px; padding: 24px;">
+              <p style="font-size: 14px; line-height: 1.6; margin: 0 0 12px 0;">${escapeHtml(message)}</p>
+              <div style="background-color: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: 16px;">
+                <div style="font-weight: 600; margin-bottom: 6px;">${escapeHtml(taskTitle)}</div>
+                <div style="font-size: 13px; color: #57606a;">${escapeHtml(projectName)}</div>
+              </div>
+              <p style="margin-top: 16px;">
+                <a href="${taskLink}" style="background-color: #009bff; color: #ffffff; text-decoration: none; padding: 6px 16px; border-radius: 6px; font-size: 14px;">View Task</a>
+              </p>
+            </div>
+            <p style="text-align: center; font-size: 12px; color: #57606a; margin-top: 24px;">
+              ${escapeHtml(reason)}
+            </p>
+          </div>
+        </body>
+      </html>
+    `,
+    text: `
+      ${message}
+
+      ${taskTitle} (${projectName})
+      View the task here: ${taskLink}
+    `,
+  };
+
+  try {
+    const info = await transporter.sendMail(mailOptions);
+    console.log('✅ Email sent to:', recipientEmail, '| Message ID:', info.messageId);
+    return { success: true, messageId: info.messageId };
+  } catch (error) {
+    console.error('❌ Error sending email to:', recipientEmail, error);
+    throw error;
+  }
+};
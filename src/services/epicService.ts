@@ -0,0 +1,136 @@
+import { supabase } from "../config/supabaseClient";
+import type { Epic, EpicProgress } from "../types/database";
+import { isTaskOverdue } from "./taskScheduleService";
+
+/**
+ * Live projects a user owns or is a member of
+ */
+export const getAccessibleProjectUuids = async (userId: number): Promise<string[]> => {
+  const [{ data: ownedProjects }, { data: memberProjects }] = await Promise.all([
+    supabase
+      .from("projects")
+      .select("project_uuid")
+      .eq("owner_id", userId)
+      .is("deleted_at", null),
+    supabase
+      .from("project_members")
+      .select("project_uuid, projects:project_uuid!inner(deleted_at)")
+      .eq("user_id", userId)
+      .is("projects.deleted_at", null),
+  ]);
+
+  const projectUuids = new Set<string>();
+  ownedProjects?.forEach(p => projectUuids.add(p.project_uuid));
+  memberProjects?.forEach(p => projectUuids.add(p.project_uuid));
+  return Array.from(projectUuids);
+};
+
+/**
+ * IDs of the epics a user can see: those they own or created, and those with
+ * tasks in any of their projects
+ */
+export const getVisibleEpicIds = async (userId: number, projectUuids: string[]): Promise<number[]> => {
+  const { data: ownEpics, error } = await supabase
+    .from("epics")
+    .select("epic_id")
+    .or(`owner_id.eq.${userId},created_by.eq.${userId}`);
+
+  if (error) throw error;
+
+  const epicIds = new Set<number>((ownEpics || []).map(e => e.epic_id));
+
+  if (projectUuids.length > 0) {
+    const { data: tasks, error: taskError } = await supabase
+      .from("tasks")
+      .select("epic_id")
+      .in("project_uuid", projectUuids)
+      .not("epic_id", "is", null)
+      .is("deleted_at", null);
+
+    if (taskError) throw taskError;
+    tasks?.forEach(t => epicIds.add(t.epic_id));
+  }
+
+  return Array.from(epicIds);
+};
+
+/**
+ * Whether a user can see an epic
+ */
+export const canViewEpic = async (
+  epic: Pick<Epic, "epic_id" | "owner_id" | "created_by">,
+  userId: number,
+  projectUuids: string[]
+): Promise<boolean> => {
+  if (epic.owner_id === userId || epic.created_by === userId) {
+    return true;
+  }
+
+  if (projectUuids.length === 0) {
+    return false;
+  }
+
+  const { data } = await supabase
+    .from("tasks")
+    .select("task_id")
+    .eq("epic_id", epic.epic_id)
+    .in("project_uuid", projectUuids)
+    .is("deleted_at", null)
+    .limit(1);
+
+  return Boolean(data && data.length > 0);
+};
+
+/**
+ * Live tasks of the given epics across all projects, grouped by epic
+ */
+export const getEpicTasks = async (epicIds: number[]): Promise<Map<number, any[]>> => {
+  const tasksByEpic = new Map<number, any[]>();
+  if (epicIds.length === 0) return tasksByEpic;
+
+  const { data: tasks, error } = await supabase
+    .from("tasks")
+    .select(`
+      task_id,
+      epic_id,
+      project_uuid,
+      title,
+      status,
+      status_category,
+      priority,
+      due_date,
+      due_at,
+      is_all_day,
+      time_zone,
+      projects:project_uuid(name)
+    `)
+    .in("epic_id", epicIds)
+    .is("deleted_at", null)
+    .order("due_date", { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+
+  tasks?.forEach(task => {
+    if (!tasksByEpic.has(task.epic_id)) {
+      tasksByEpic.set(task.epic_id, []);
+    }
+    tasksByEpic.get(task.epic_id)!.push(task);
+  });
+
+  return tasksByEpic;
+};
+
+/**
+ * Progress of an epic from all of its tasks, whichever project they are in
+ */
+export const computeEpicProgress = (tasks: any[], viewerTimeZone: string): EpicProgress => {
+  const completedTasks = tasks.filter(t => t.status_category === "done").length;
+
+  return {
+    total_tasks: tasks.length,
+    completed_tasks: completedTasks,
+    overdue_tasks: tasks.filter(t => isTaskOverdue(t, viewerTimeZone)).length,
+    completion: tasks.length > 0 ? Math.round((completedTasks / tasks.length) * 100) : 0,
+    project_count: new Set(tasks.map(t => t.project_uuid)).size,
+  };
+};
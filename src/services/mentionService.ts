@@ -0,0 +1,146 @@
+import { supabase } from "../config/supabaseClient";
+import { notifyUsers } from "./notificationService";
+import { addTaskWatchers } from "./watcherService";
+
+// @123 (user ID) or @someone@example.com, not preceded by a word character
+const MENTION_PATTERN = /(?:^|[^\w@.])@(\d+(?![\w@])|[\w.+-]+@[\w-]+(?:\.[\w-]+)+)/g;
+
+/**
+ * Extract the user IDs and emails mentioned in a text
+ */
+export const parseMentions = (text: string): { userIds: number[]; emails: string[] } => {
+  const userIds = new Set<number>();
+  const emails = new Set<string>();
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const token = match[1];
+    if (/^\d+$/.test(token)) {
+      userIds.add(Number(token));
+    } else {
+      emails.add(token.toLowerCase());
+    }
+  }
+
+  return { userIds: Array.from(userIds), emails: Array.from(emails) };
+};
+
+/**
+ * Resolve the mentions in a text to members of a project
+ * Mentions of anyone outside the project are ignored.
+ */
+export const resolveMentions = async (text: string, projectUuid: string): Promise<number[]> => {
+  const { userIds, emails } = parseMentions(text);
+
+  if (userIds.length === 0 && emails.length === 0) {
+    return [];
+  }
+
+  const [{ data: project }, { data: members }] = await Promise.all([
+    supabase.from("projects").select("owner_id").eq("project_uuid", projectUuid).single(),
+    supabase.from("project_members").select("user_id").eq("project_uuid", projectUuid),
+  ]);
+
+  const memberIds = new Set<number>((members || []).map(m => m.user_id));
+  if (project) {
+    memberIds.add(project.owner_id);
+  }
+
+  const resolved = new Set<number>(userIds.filter(id => memberIds.has(id)));
+
+  if (emails.length > 0 && memberIds.size > 0) {
+    const { data: users } = await supabase
+      .from("users")
+      .select("user_id, email")
+      .in("user_id", Array.from(memberIds));
+
+    users?.forEach(u => {
+      if (u.email && emails.includes(u.email.toLowerCase())) {
+        resolved.add(u.user_id);
+      }
+    });
+  }
+
+  return Array.from(resolved);
+};
+
+/**
+ * Store the mentions of a task description or comment and notify new ones
+ * Mentions removed from the text are deleted; users mentioned for the first
+ * time are notified and start watching the task. Returns every user currently
+ * mentioned in the text. Errors are logged, not thrown.
+ */
+export const syncMentions = async ({
+  taskId,
+  commentId = null,
+  text,
+  actorId,
+}: {
+  taskId: number;
+  commentId?: number | null;
+  text: string | null | undefined;
+  actorId: number;
+}): Promise<number[]> => {
+  try {
+    const { data: task } = await supabase
+      .from("tasks")
+      .select("project_uuid")
+      .eq("task_id", taskId)
+      .single();
+
+    if (!task) {
+      return [];
+    }
+
+    const mentioned = text ? await resolveMentions(text, task.project_uuid) : [];
+
+    let existingQuery = supabase
+      .from("task_mentions")
+      .select("mentioned_user_id")
+      .eq("task_id", taskId);
+    existingQuery = commentId ? existingQuery.eq("comment_id", commentId) : existingQuery.is("comment_id", null);
+
+    const { data: existing } = await existingQuery;
+    const existingIds = new Set<number>((existing || []).map(m => m.mentioned_user_id));
+
+    const added = mentioned.filter(id => !existingIds.has(id));
+    const removed = Array.from(existingIds).filter(id => !mentioned.includes(id));
+
+    if (removed.length > 0) {
+      let deleteQuery = supabase
+        .from("task_mentions")
+        .delete()
+        .eq("task_id", taskId)
+        .in("mentioned_user_id", removed);
+      deleteQuery = commentId ? deleteQuery.eq("comment_id", commentId) : deleteQuery.is("comment_id", null);
+      await deleteQuery;
+    }
+
+    if (added.length > 0) {
+      const { error } = await supabase
+        .from("task_mentions")
+        .insert(added.map(userId => ({
+          task_id: taskId,
+          comment_id: commentId,
+          mentioned_user_id: userId,
+          mentioned_by: actorId,
+        })));
+
+      if (error) {
+        console.error("Failed to store mentions:", error);
+      }
+
+      await addTaskWatchers(taskId, added);
+      await notifyUsers(added, {
+        type: "mentioned",
+        taskId,
+        actorId,
+        data: { comment_id: commentId, excerpt: (text || "").slice(0, 200) },
+      });
+    }
+
+    return mentioned;
+  } catch (error) {
+    console.error("Failed to sync mentions:", error);
+    return [];
+  }
+};
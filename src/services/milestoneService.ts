@@ -0,0 +1,152 @@
+import { supabase } from "../config/supabaseClient";
+import type { Milestone, MilestoneProgress } from "../types/database";
+import { getLocalDate, isTaskOverdue } from "./taskScheduleService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Milestones due within this many days are at risk while less than half done
+const AT_RISK_WINDOW_DAYS = 7;
+const AT_RISK_MIN_COMPLETION = 50;
+
+export const MILESTONE_TASK_FIELDS = `
+  task_id,
+  milestone_id,
+  title,
+  status,
+  status_category,
+  priority,
+  due_date,
+  due_at,
+  is_all_day,
+  time_zone
+`;
+
+/**
+ * Completion and status of a milestone from its tasks
+ * - completed: it has tasks and all of them are done
+ * - overdue: the target date has passed in the viewer's time zone
+ * - at_risk: an open task is overdue or due after the target date, or the
+ *   target is close and less than half of the tasks are done
+ */
+export const computeMilestoneProgress = (
+  milestone: Pick<Milestone, "target_date">,
+  tasks: any[],
+  viewerTimeZone: string,
+  now: Date = new Date()
+): MilestoneProgress => {
+  const totalTasks = tasks.length;
+  const completedTasks = tasks.filter(t => t.status_category === "done").length;
+  const completion = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+  const progress = { total_tasks: totalTasks, completed_tasks: completedTasks, completion };
+
+  if (totalTasks > 0 && completedTasks === totalTasks) {
+    return { ...progress, status: "completed", at_risk_reasons: [] };
+  }
+
+  const today = getLocalDate(now, viewerTimeZone);
+  if (milestone.target_date < today) {
+    return { ...progress, status: "overdue", at_risk_reasons: [] };
+  }
+
+  const openTasks = tasks.filter(t => t.status_category !== "done");
+  const reasons: string[] = [];
+
+  const overdueCount = openTasks.filter(t => isTaskOverdue(t, viewerTimeZone, now)).length;
+  if (overdueCount > 0) {
+    reasons.push(`${overdueCount} open task${overdueCount === 1 ? " is" : "s are"} overdue`);
+  }
+
+  const lateCount = openTasks.filter(t => t.due_date && t.due_date > milestone.target_date).length;
+  if (lateCount > 0) {
+    reasons.push(`${lateCount} open task${lateCount === 1 ? " is" : "s are"} due after the target date`);
+  }
+
+  const daysLeft = Math.round(
+    (Date.parse(`${milestone.target_date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS
+  );
+  if (totalTasks > 0 && daysLeft <= AT_RISK_WINDOW_DAYS && completion < AT_RISK_MIN_COMPLETION) {
+    reasons.push(`Less than ${AT_RISK_MIN_COMPLETION}% done with ${daysLeft} day${daysLeft === 1 ? "" : "s"} left`);
+  }
+
+  return {
+    ...progress,
+    status: reasons.length > 0 ? "at_risk" : "on_track",
+    at_risk_reasons: reasons,
+  };
+};
+
+/**
+ * Live tasks attached to the given milestones, grouped by milestone
+ */
+export const getMilestoneTasks = async (milestoneIds: number[]): Promise<Map<number, any[]>> => {
+  const tasksByMilestone = new Map<number, any[]>();
+  if (milestoneIds.length === 0) return tasksByMilestone;
+
+  const { data: tasks, error } = await supabase
+    .from("tasks")
+    .select(MILESTONE_TASK_FIELDS)
+    .in("milestone_id", milestoneIds)
+    .is("deleted_at", null)
+    .order("due_date", { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+
+  tasks?.forEach(task => {
+    if (!tasksByMilestone.has(task.milestone_id)) {
+      tasksByMilestone.set(task.milestone_id, []);
+    }
+    tasksByMilestone.get(task.milestone_id)!.push(task);
+  });
+
+  return tasksByMilestone;
+};
+
+/**
+ * Milestones of the given projects with their progress, ordered by target date
+ * Optionally limited to target dates within [from, to].
+ */
+export const getMilestonesWithProgress = async (
+  projectUuids: string[],
+  viewerTimeZone: string,
+  range?: { from?: string; to?: string }
+): Promise<(Milestone & MilestoneProgress)[]> => {
+  if (projectUuids.length === 0) return [];
+
+  let query = supabase
+    .from("project_milestones")
+    .select("*")
+    .in("project_uuid", projectUuids)
+    .order("target_date", { ascending: true })
+    .order("milestone_id", { ascending: true });
+
+  if (range?.from) {
+    query = query.gte("target_date", range.from);
+  }
+
+  if (range?.to) {
+    query = query.lte("target_date", range.to);
+  }
+
+  const { data: milestones, error } = await query;
+  if (error) throw error;
+
+  const tasksByMilestone = await getMilestoneTasks((milestones || []).map(m => m.milestone_id));
+
+  return (milestones || []).map(milestone => ({
+    ...milestone,
+    ...computeMilestoneProgress(milestone, tasksByMilestone.get(milestone.milestone_id) || [], viewerTimeZone),
+  }));
+};
+
+/**
+ * Whether a milestone exists in the given project
+ */
+export const milestoneBelongsToProject = async (milestoneId: number, projectUuid: string): Promise<boolean> => {
+  const { data } = await supabase
+    .from("project_milestones")
+    .select("milestone_id")
+    .eq("milestone_id", milestoneId)
+    .eq("project_uuid", projectUuid)
+    .maybeSingle();
+
+  return Boolean(data);
+};
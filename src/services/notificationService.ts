@@ -0,0 +1,155 @@
+import { supabase } from "../config/supabaseClient";
+import { sendTaskNotificationEmail } from "./emailService";
+import type { NotificationType } from "../types/database";
+
+interface TaskNotificationInput {
+  type: NotificationType;
+  taskId: number;
+  actorId: number;
+  data?: Record<string, unknown>;
+}
+
+// One-line summary used as email body
+const describeNotification = (
+  type: NotificationType,
+  actorName: string,
+  taskTitle: string,
+  data: Record<string, unknown>
+): string => {
+  switch (type) {
+    case "task_status_changed":
+      return `${actorName} moved "${taskTitle}" from ${data.from} to ${data.to}.`;
+    case "task_due_date_changed":
+      return data.to
+        ? `${actorName} changed the due date of "${taskTitle}" to ${data.to}${data.from ? ` (was ${data.from})` : ""}.`
+        : `${actorName} removed the due date of "${taskTitle}".`;
+    case "task_commented":
+      return `${actorName} commented on "${taskTitle}": ${String(data.excerpt || "")}`;
+    case "mentioned":
+      return `${actorName} mentioned you in "${taskTitle}": ${String(data.excerpt || "")}`;
+    default:
+      return `${actorName} updated "${taskTitle}".`;
+  }
+};
+
+/**
+ * Owner and member IDs of a project
+ */
+const getProjectUserIds = async (projectUuid: string): Promise<Set<number>> => {
+  const [{ data: project }, { data: members }] = await Promise.all([
+    supabase.from("projects").select("owner_id").eq("project_uuid", projectUuid).single(),
+    supabase.from("project_members").select("user_id").eq("project_uuid", projectUuid),
+  ]);
+
+  const userIds = new Set<number>((members || []).map(m => m.user_id));
+  if (project) {
+    userIds.add(project.owner_id);
+  }
+  return userIds;
+};
+
+/**
+ * Notify users about activity on a task
+ * Creates in-app notifications and sends emails in the background. The actor
+ * is never notified about their own change, and only current owners and
+ * members of the task's project are notified. Errors are logged, not thrown,
+ * so a failed notification never fails the request that triggered it.
+ */
+export const notifyUsers = async (
+  recipientIds: number[],
+  { type, taskId, actorId, data = {} }: TaskNotificationInput
+): Promise<void> => {
+  try {
+    const candidateIds = Array.from(new Set(recipientIds)).filter(id => id !== actorId);
+    if (candidateIds.length === 0) {
+      return;
+    }
+
+    const { data: task } = await supabase
+      .from("tasks")
+      .select("title, project_uuid, projects:project_uuid(name)")
+      .eq("task_id", taskId)
+      .single();
+
+    if (!task) {
+      return;
+    }
+
+    // Users who left the project (or never were in it) get nothing
+    const projectUserIds = await getProjectUserIds(task.project_uuid);
+    const ids = candidateIds.filter(id => projectUserIds.has(id));
+    if (ids.length === 0) {
+      return;
+    }
+
+    const { data: users } = await supabase
+      .from("users")
+      .select("user_id, name, email")
+      .in("user_id", [...ids, actorId]);
+
+    const { error } = await supabase
+      .from("notifications")
+      .insert(ids.map(userId => ({
+        user_id: userId,
+        actor_id: actorId,
+        type,
+        task_id: taskId,
+        project_uuid: task.project_uuid,
+        data,
+      })));
+
+    if (error) {
+      console.error("Failed to create notifications:", error);
+    }
+
+    const actor = users?.find(u => u.user_id === actorId);
+    const actorName = actor?.name || actor?.email || "Someone";
+    const projectName = (task as any).projects?.name || "Untitled Project";
+    const message = describeNotification(type, actorName, task.title, data);
+
+    users
+      ?.filter(u => ids.includes(u.user_id) && u.email)
+      .forEach(u => {
+        sendTaskNotificationEmail({
+          recipientEmail: u.email,
+          subject: `[${projectName}] ${task.title}`,
+          message,
+          taskTitle: task.title,
+          projectName,
+          taskId,
+          reason: type === "mentioned"
+            ? "You're receiving this because you were mentioned on this task."
+            : undefined,
+        }).catch((emailError) => {
+          console.error("❌ Failed to send task notification email:", emailError);
+        });
+      });
+  } catch (error) {
+    console.error("Failed to notify users:", error);
+  }
+};
+
+/**
+ * Notify everyone watching a task (except the actor)
+ * excludeUserIds skips users who already got a more specific notification,
+ * such as a mention in the same comment.
+ */
+export const notifyTaskWatchers = async (
+  input: TaskNotificationInput,
+  excludeUserIds: number[] = []
+): Promise<void> => {
+  const { data: watchers, error } = await supabase
+    .from("task_watchers")
+    .select("user_id")
+    .eq("task_id", input.taskId);
+
+  if (error) {
+    console.error("Failed to load task watchers:", error);
+    return;
+  }
+
+  await notifyUsers(
+    (watchers || []).map(w => w.user_id).filter(id => !excludeUserIds.includes(id)),
+    input
+  );
+};
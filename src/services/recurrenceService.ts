@@ -0,0 +1,214 @@
+import { supabase } from "../config/supabaseClient";
+import { getEndOfColumnRank } from "./boardRankService";
+import { DEFAULT_TIME_ZONE, getLocalDate, shiftTaskSchedule } from "./taskScheduleService";
+import { getProjectTaskStatuses, resolveTaskStatus } from "./taskStatusService";
+import type { RecurrenceFrequency, Task, TaskRecurrence } from "../types/database";
+
+const FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly", "after_completion"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are handled as UTC calendar days ("YYYY-MM-DD")
+const parseDate = (date: string) => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+const formatDate = (date: Date) => date.toISOString().split("T")[0];
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Validate a recurrence rule from a request body
+ * Returns an error message, or null when the rule is valid
+ */
+export const validateRecurrence = (rule: unknown): string | null => {
+  if (!rule || typeof rule !== "object") {
+    return "recurrence must be an object";
+  }
+
+  const { frequency, interval, weekdays, day_of_month } = rule as TaskRecurrence;
+
+  if (!FREQUENCIES.includes(frequency)) {
+    return `recurrence.frequency must be one of: ${FREQUENCIES.join(", ")}`;
+  }
+
+  if (interval !== undefined && (!Number.isInteger(interval) || interval < 1)) {
+    return "recurrence.interval must be a positive integer";
+  }
+
+  if (weekdays !== undefined) {
+    if (frequency !== "weekly") {
+      return "recurrence.weekdays only applies to weekly recurrence";
+    }
+    if (!Array.isArray(weekdays) || weekdays.some(d => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return "recurrence.weekdays must be an array of days 0-6 (0 = Sunday)";
+    }
+  }
+
+  if (day_of_month !== undefined) {
+    if (frequency !== "monthly") {
+      return "recurrence.day_of_month only applies to monthly recurrence";
+    }
+    if (!Number.isInteger(day_of_month) || day_of_month < 1 || day_of_month > 31) {
+      return "recurrence.day_of_month must be between 1 and 31";
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Compute the due date of the next occurrence
+ * Calendar rules step from the current due date (or the completion date when
+ * the task had none); 'after_completion' always steps from the completion date.
+ */
+export const getNextDueDate = (rule: TaskRecurrence, dueDate: string | null, completedOn: string): string => {
+  const interval = rule.interval || 1;
+  const completed = parseDate(completedOn);
+  const base = dueDate ? parseDate(dueDate) : completed;
+
+  switch (rule.frequency) {
+    case "daily":
+      return formatDate(addDays(base, interval));
+
+    case "weekly": {
+      const weekdays = Array.from(new Set(rule.weekdays || [])).sort((a, b) => a - b);
+      if (weekdays.length === 0) {
+        return formatDate(addDays(base, 7 * interval));
+      }
+      // Later weekday in the same week, otherwise the first weekday `interval` weeks on
+      const laterThisWeek = weekdays.find(d => d > base.getUTCDay());
+      if (laterThisWeek !== undefined) {
+        return formatDate(addDays(base, laterThisWeek - base.getUTCDay()));
+      }
+      const weekStart = addDays(base, -base.getUTCDay());
+      return formatDate(addDays(weekStart, 7 * interval + weekdays[0]));
+    }
+
+    case "monthly": {
+      const day = rule.day_of_month || base.getUTCDate();
+      const year = base.getUTCFullYear();
+      const month = base.getUTCMonth() + interval;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return formatDate(new Date(Date.UTC(year, month, Math.min(day, lastDay))));
+    }
+
+    case "after_completion":
+    default:
+      return formatDate(addDays(completed, interval));
+  }
+};
+
+/**
+ * Create the next occurrence of a completed recurring task
+ * The copy starts in the project's initial status with a shifted schedule and
+ * keeps the assignees, labels, custom field values and (unticked) checklist of the original.
+ * Returns null when the task doesn't recur or already has a next occurrence.
+ */
+export const createNextOccurrence = async (taskId: number, userId: number): Promise<Task | null> => {
+  const { data: task, error } = await supabase
+    .from("tasks")
+    .select("*")
+    .eq("task_id", taskId)
+    .single();
+
+  if (error || !task || !task.recurrence || task.next_occurrence_id) {
+    return null;
+  }
+
+  const statuses = await getProjectTaskStatuses(task.project_uuid);
+  const initialStatus = resolveTaskStatus(statuses);
+
+  if (!initialStatus) {
+    return null;
+  }
+
+  // "Today" is the completion day where the task's times are set
+  const today = getLocalDate(new Date(), task.time_zone || DEFAULT_TIME_ZONE);
+  const nextDueDate = getNextDueDate(task.recurrence, task.due_date, today);
+
+  const { data: nextTask, error: insertError } = await supabase
+    .from("tasks")
+    .insert({
+      project_uuid: task.project_uuid,
+      title: task.title,
+      description: task.description,
+      status: initialStatus.name,
+      status_category: initialStatus.category,
+      priority: task.priority,
+      ...shiftTaskSchedule(task, nextDueDate),
+      parent_task_id: task.parent_task_id,
+      board_rank: await getEndOfColumnRank(task.project_uuid, initialStatus.name),
+      recurrence: task.recurrence,
+      recurrence_source_id: task.task_id,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (insertError || !nextTask) {
+    console.error("Failed to create next occurrence of task:", insertError);
+    return null;
+  }
+
+  // Link the occurrences so the rule only fires once per completion
+  await supabase
+    .from("tasks")
+    .update({ next_occurrence_id: nextTask.task_id })
+    .eq("task_id", task.task_id);
+
+  const [
+    { data: assignments },
+    { data: labels },
+    { data: checklist },
+    { data: watchers },
+    { data: customFieldValues },
+  ] = await Promise.all([
+    supabase.from("task_assignments").select("user_id").eq("task_id", task.task_id),
+    supabase.from("task_labels").select("label_id").eq("task_id", task.task_id),
+    supabase.from("task_checklist_items").select("content, position").eq("task_id", task.task_id),
+    supabase.from("task_watchers").select("user_id").eq("task_id", task.task_id),
+    supabase.from("task_custom_field_values").select("field_id, value").eq("task_id", task.task_id),
+  ]);
+
+  const copies = [];
+  if (assignments && assignments.length > 0) {
+    copies.push(
+      supabase
+        .from("task_assignments")
+        .insert(assignments.map(a => ({ task_id: nextTask.task_id, user_id: a.user_id })))
+    );
+  }
+  if (labels && labels.length > 0) {
+    copies.push(
+      supabase
+        .from("task_labels")
+        .insert(labels.map(l => ({ task_id: nextTask.task_id, label_id: l.label_id })))
+    );
+  }
+  if (watchers && watchers.length > 0) {
+    copies.push(
+      supabase
+        .from("task_watchers")
+        .insert(watchers.map(w => ({ task_id: nextTask.task_id, user_id: w.user_id })))
+    );
+  }
+  if (customFieldValues && customFieldValues.length > 0) {
+    copies.push(
+      supabase
+        .from("task_custom_field_values")
+        .insert(customFieldValues.map(v => ({ task_id: nextTask.task_id, field_id: v.field_id, value: v.value })))
+    );
+  }
+  if (checklist && checklist.length > 0) {
+    copies.push(
+      supabase
+        .from("task_checklist_items")
+        .insert(checklist.map(i => ({ task_id: nextTask.task_id, content: i.content, position: i.position })))
+    );
+  }
+
+  const results = await Promise.all(copies);
+  results.forEach(({ error: copyError }) => {
+    if (copyError) {
+      console.error("Failed to copy data to next occurrence:", copyError);
+    }
+  });
+
+  return nextTask;
+};
@@ -0,0 +1,157 @@
+import { supabase } from "../config/supabaseClient";
+import type { Sprint, SprintProgress, SprintSummary } from "../types/database";
+
+/**
+ * Committed vs completed figures from a sprint's task rows
+ * Each row is a sprint_tasks entry with its task embedded as `task`.
+ */
+export const computeSprintProgress = (entries: any[]): SprintProgress => {
+  const completed = entries.filter(e => e.task.status_category === "done");
+  const sumEstimates = (list: any[]) =>
+    list.reduce((sum, e) => sum + (Number(e.task.estimate) || 0), 0);
+
+  return {
+    total_tasks: entries.length,
+    committed_tasks: entries.filter(e => !e.added_after_start).length,
+    added_tasks: entries.filter(e => e.added_after_start).length,
+    completed_tasks: completed.length,
+    completion: entries.length > 0 ? Math.round((completed.length / entries.length) * 100) : 0,
+    total_estimate: sumEstimates(entries),
+    completed_estimate: sumEstimates(completed),
+  };
+};
+
+/**
+ * Live tasks of the given sprints, grouped by sprint
+ */
+export const getSprintTasks = async (sprintIds: number[]): Promise<Map<number, any[]>> => {
+  const tasksBySprint = new Map<number, any[]>();
+  if (sprintIds.length === 0) return tasksBySprint;
+
+  const { data: rows, error } = await supabase
+    .from("sprint_tasks")
+    .select(`
+      sprint_id,
+      task_id,
+      added_at,
+      added_after_start,
+      carried_over_from,
+      tasks:task_id(task_id, title, status, status_category, priority, due_date, estimate, board_rank)
+    `)
+    .in("sprint_id", sprintIds)
+    .is("tasks.deleted_at", null);
+
+  if (error) throw error;
+
+  rows?.forEach(row => {
+    const task = (row as any).tasks;
+    if (!task) return;
+
+    if (!tasksBySprint.has(row.sprint_id)) {
+      tasksBySprint.set(row.sprint_id, []);
+    }
+    tasksBySprint.get(row.sprint_id)!.push({
+      task_id: row.task_id,
+      added_at: row.added_at,
+      added_after_start: row.added_after_start,
+      carried_over_from: row.carried_over_from,
+      task,
+    });
+  });
+
+  return tasksBySprint;
+};
+
+/**
+ * Tasks among the given ones that are already in a planned or active sprint
+ * of the project other than `exceptSprintId`
+ */
+export const getTasksInOpenSprints = async (
+  projectUuid: string,
+  taskIds: number[],
+  exceptSprintId?: number
+): Promise<{ task_id: number; sprint_id: number }[]> => {
+  let sprintsQuery = supabase
+    .from("project_sprints")
+    .select("sprint_id")
+    .eq("project_uuid", projectUuid)
+    .neq("status", "closed");
+
+  if (exceptSprintId) {
+    sprintsQuery = sprintsQuery.neq("sprint_id", exceptSprintId);
+  }
+
+  const { data: openSprints } = await sprintsQuery;
+  const openSprintIds = (openSprints || []).map(s => s.sprint_id);
+
+  if (openSprintIds.length === 0 || taskIds.length === 0) return [];
+
+  const { data: rows } = await supabase
+    .from("sprint_tasks")
+    .select("task_id, sprint_id")
+    .in("sprint_id", openSprintIds)
+    .in("task_id", taskIds);
+
+  return rows || [];
+};
+
+/**
+ * Commit tasks to a sprint; tasks already in it are left as they are
+ * Tasks added to a running sprint are flagged as added scope.
+ */
+export const addTasksToSprint = async (
+  sprint: Pick<Sprint, "sprint_id" | "status">,
+  taskIds: number[],
+  carriedOverFrom: number | null = null
+): Promise<void> => {
+  if (taskIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("sprint_tasks")
+    .upsert(
+      taskIds.map(taskId => ({
+        sprint_id: sprint.sprint_id,
+        task_id: taskId,
+        added_after_start: sprint.status === "active",
+        carried_over_from: carriedOverFrom,
+      })),
+      { onConflict: "sprint_id,task_id", ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+};
+
+/**
+ * Close an active sprint
+ * Unfinished tasks are carried over into `carryOverTo` (a planned or active
+ * sprint of the same project) when given. The summary is stored on the sprint
+ * so later status changes don't rewrite history.
+ */
+export const closeSprint = async (
+  sprint: Sprint,
+  carryOverTo: Pick<Sprint, "sprint_id" | "status"> | null
+): Promise<SprintSummary> => {
+  const entries = (await getSprintTasks([sprint.sprint_id])).get(sprint.sprint_id) || [];
+  const unfinishedTaskIds = entries
+    .filter(e => e.task.status_category !== "done")
+    .map(e => e.task_id);
+
+  if (carryOverTo) {
+    await addTasksToSprint(carryOverTo, unfinishedTaskIds, sprint.sprint_id);
+  }
+
+  const summary: SprintSummary = {
+    ...computeSprintProgress(entries),
+    carried_over_task_ids: carryOverTo ? unfinishedTaskIds : [],
+    carried_over_to: carryOverTo?.sprint_id ?? null,
+  };
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from("project_sprints")
+    .update({ status: "closed", closed_at: now, updated_at: now, summary })
+    .eq("sprint_id", sprint.sprint_id);
+
+  if (error) throw error;
+  return summary;
+};
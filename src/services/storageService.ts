@@ -0,0 +1,117 @@
+import { GetObjectCommand, PutObjectCommand, DeleteObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { createReadStream } from "fs";
+import { mkdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { env } from "../config/env";
+import { supabase } from "../config/supabaseClient";
+import type { StorageDriver } from "../types/database";
+
+// Common interface of the attachment storage backends
+export interface StorageBackend {
+  driver: StorageDriver;
+  put(key: string, body: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+const localDiskStorage = (rootDir: string): StorageBackend => {
+  const root = path.resolve(rootDir);
+
+  // Keys never escape the storage root
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error("Invalid storage key");
+    }
+    return filePath;
+  };
+
+  return {
+    driver: "local",
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+    async get(key) {
+      return createReadStream(resolveKey(key));
+    },
+    async remove(key) {
+      await unlink(resolveKey(key)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== "ENOENT") throw error;
+      });
+    },
+  };
+};
+
+const supabaseStorage = (bucket: string): StorageBackend => ({
+  driver: "supabase",
+  async put(key, body, mimeType) {
+    const { error } = await supabase.storage.from(bucket).upload(key, body, { contentType: mimeType });
+    if (error) throw error;
+  },
+  async get(key) {
+    const { data, error } = await supabase.storage.from(bucket).download(key);
+    if (error || !data) throw error || new Error("File not found in storage");
+    return Readable.from(Buffer.from(await data.arrayBuffer()));
+  },
+  async remove(key) {
+    const { error } = await supabase.storage.from(bucket).remove([key]);
+    if (error) throw error;
+  },
+});
+
+const s3Storage = (): StorageBackend => {
+  if (!env.S3_BUCKET) {
+    throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+  }
+
+  const bucket = env.S3_BUCKET;
+  const client = new S3Client({
+    region: env.S3_REGION,
+    endpoint: env.S3_ENDPOINT,
+    // Path-style URLs are what most S3-compatible services expect
+    forcePathStyle: Boolean(env.S3_ENDPOINT),
+    credentials:
+      env.S3_ACCESS_KEY_ID && env.S3_SECRET_ACCESS_KEY
+        ? { accessKeyId: env.S3_ACCESS_KEY_ID, secretAccessKey: env.S3_SECRET_ACCESS_KEY }
+        : undefined,
+  });
+
+  return {
+    driver: "s3",
+    async put(key, body, mimeType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: mimeType }));
+    },
+    async get(key) {
+      const result = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      return result.Body as Readable;
+    },
+    async remove(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+};
+
+const backends = new Map<StorageDriver, StorageBackend>();
+
+/**
+ * Get a storage backend, created on first use
+ * Without an argument this is the backend new uploads go to (STORAGE_DRIVER).
+ * Existing files are read through the driver recorded with them, so switching
+ * drivers doesn't orphan older attachments.
+ */
+export const getStorage = (driver: StorageDriver = env.STORAGE_DRIVER): StorageBackend => {
+  let backend = backends.get(driver);
+  if (!backend) {
+    backend =
+      driver === "s3"
+        ? s3Storage()
+        : driver === "supabase"
+          ? supabaseStorage(env.SUPABASE_STORAGE_BUCKET)
+          : localDiskStorage(env.STORAGE_LOCAL_DIR);
+    backends.set(driver, backend);
+  }
+  return backend;
+};
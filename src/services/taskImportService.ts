@@ -0,0 +1,530 @@
+import { supabase } from "../config/supabaseClient";
+import { getEndOfColumnRank, RANK_STEP } from "./boardRankService";
+import { getProjectCustomFields, resolveCustomFieldValues } from "./customFieldService";
+import { resolveTaskSchedule } from "./taskScheduleService";
+import { getProjectTaskStatuses, resolveTaskStatus } from "./taskStatusService";
+import type { CustomFieldChange } from "./customFieldService";
+import type {
+  ProjectCustomField,
+  ProjectPriority,
+  Task,
+  TaskImport,
+  TaskImportMapping,
+  TaskImportRowPreview,
+  TaskStatusDefinition,
+} from "../types/database";
+
+export const MAX_IMPORT_ROWS = 1000;
+const TASK_PRIORITIES: ProjectPriority[] = ["Low", "Medium", "High", "Critical"];
+
+// Task fields a CSV column can be mapped to, besides "custom_field:<field_id>"
+export const IMPORT_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "start_date",
+  "due_date",
+  "estimate",
+  "assignee_emails",
+  "labels",
+] as const;
+type ImportField = typeof IMPORT_FIELDS[number];
+
+const CUSTOM_FIELD_PREFIX = "custom_field:";
+
+// Column names recognised when suggesting a mapping (lowercase, words joined by "_")
+const FIELD_ALIASES: Record<string, ImportField> = {
+  title: "title",
+  name: "title",
+  task: "title",
+  summary: "title",
+  description: "description",
+  details: "description",
+  notes: "description",
+  status: "status",
+  state: "status",
+  priority: "priority",
+  start: "start_date",
+  start_date: "start_date",
+  due: "due_date",
+  due_date: "due_date",
+  deadline: "due_date",
+  estimate: "estimate",
+  points: "estimate",
+  story_points: "estimate",
+  assignee: "assignee_emails",
+  assignees: "assignee_emails",
+  assignee_email: "assignee_emails",
+  assignee_emails: "assignee_emails",
+  label: "labels",
+  labels: "labels",
+  tags: "labels",
+};
+
+// Project data every row is checked against
+export interface ImportContext {
+  statuses: TaskStatusDefinition[];
+  labelIdsByName: Map<string, number>;
+  userIdsByEmail: Map<string, number>;
+  customFields: ProjectCustomField[];
+}
+
+// Task columns of one row plus what is attached to the task after it's created
+type ImportedTask = Partial<Task> & {
+  assignee_ids: number[];
+  label_ids: number[];
+  custom_fields: CustomFieldChange[];
+};
+
+/**
+ * Parse CSV text (RFC 4180: quoted cells, "" escapes, CRLF or LF line ends)
+ * Blank lines are skipped. Throws on an unterminated quoted cell.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^﻿/, "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV has an unterminated quoted cell");
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ""));
+};
+
+/**
+ * Split parsed CSV into column names and data rows
+ * Unnamed columns are called "Column N"; names must be unique.
+ */
+export const readCsvTable = (text: string): { headers?: string[]; rows?: string[][]; error?: string } => {
+  let parsed: string[][];
+  try {
+    parsed = parseCsv(text);
+  } catch (error: any) {
+    return { error: error.message };
+  }
+
+  if (parsed.length < 2) {
+    return { error: "CSV needs a header row and at least one data row" };
+  }
+
+  const headers = parsed[0].map((h, i) => h.trim() || `Column ${i + 1}`);
+  const duplicate = headers.find((h, i) => headers.indexOf(h) !== i);
+  if (duplicate) {
+    return { error: `Column names must be unique: "${duplicate}" appears more than once` };
+  }
+
+  const rows = parsed.slice(1);
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` };
+  }
+
+  return { headers, rows };
+};
+
+/**
+ * Load the statuses, labels, members and custom fields rows are validated against
+ */
+export const loadImportContext = async (projectUuid: string): Promise<ImportContext> => {
+  const [statuses, customFields, { data: labels }, { data: project }, { data: members }] = await Promise.all([
+    getProjectTaskStatuses(projectUuid),
+    getProjectCustomFields(projectUuid),
+    supabase.from("project_labels").select("label_id, name").eq("project_uuid", projectUuid),
+    supabase.from("projects").select("owner_id, users:owner_id(email)").eq("project_uuid", projectUuid).single(),
+    supabase.from("project_members").select("user_id, users:user_id(email)").eq("project_uuid", projectUuid),
+  ]);
+
+  const labelIdsByName = new Map<string, number>();
+  labels?.forEach(l => labelIdsByName.set(l.name.toLowerCase(), l.label_id));
+
+  // Only the owner and members can be assigned
+  const userIdsByEmail = new Map<string, number>();
+  members?.forEach(m => {
+    const email = (m as any).users?.email;
+    if (email) userIdsByEmail.set(email.toLowerCase(), m.user_id);
+  });
+  const ownerEmail = (project as any)?.users?.email;
+  if (project && ownerEmail) {
+    userIdsByEmail.set(ownerEmail.toLowerCase(), project.owner_id);
+  }
+
+  return { statuses, labelIdsByName, userIdsByEmail, customFields };
+};
+
+/**
+ * Guess a mapping from column names: known task field names and their common
+ * aliases, then custom field names. Each field is mapped at most once.
+ */
+export const suggestMapping = (headers: string[], customFields: ProjectCustomField[]): TaskImportMapping => {
+  const mapping: TaskImportMapping = {};
+  const used = new Set<string>();
+
+  for (const header of headers) {
+    const key = header.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+    const customField = customFields.find(f => f.name.toLowerCase() === header.toLowerCase());
+    const target = FIELD_ALIASES[key] ?? (customField ? `${CUSTOM_FIELD_PREFIX}${customField.field_id}` : null);
+
+    if (target && !used.has(target)) {
+      mapping[header] = target;
+      used.add(target);
+    } else {
+      mapping[header] = null;
+    }
+  }
+
+  return mapping;
+};
+
+/**
+ * Check a mapping against the file's columns and the project's custom fields
+ * Returns an error message, or null when the mapping can be used.
+ */
+export const validateMapping = (
+  mapping: unknown,
+  headers: string[],
+  customFields: ProjectCustomField[]
+): string | null => {
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) {
+    return "mapping must be an object of column name -> task field";
+  }
+
+  const targets: string[] = [];
+
+  for (const [column, target] of Object.entries(mapping)) {
+    if (!headers.includes(column)) {
+      return `Unknown column in mapping: "${column}"`;
+    }
+    if (target === null || target === "") continue;
+
+    const customFieldId = typeof target === "string" && target.startsWith(CUSTOM_FIELD_PREFIX)
+      ? Number(target.slice(CUSTOM_FIELD_PREFIX.length))
+      : null;
+    const isKnown = customFieldId !== null
+      ? customFields.some(f => f.field_id === customFieldId)
+      : IMPORT_FIELDS.includes(target as ImportField);
+
+    if (!isKnown) {
+      return `Unknown task field "${target}". Allowed: ${IMPORT_FIELDS.join(", ")} or ${CUSTOM_FIELD_PREFIX}<field_id>`;
+    }
+    if (targets.includes(target)) {
+      return `Task field "${target}" is mapped to more than one column`;
+    }
+    targets.push(target);
+  }
+
+  if (!targets.includes("title")) {
+    return "A column must be mapped to title";
+  }
+
+  return null;
+};
+
+const splitList = (value: string, separator: RegExp) =>
+  value.split(separator).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Turn one CSV row into task data, collecting every problem found
+ * Lists (assignee emails, labels, multi-select values) are separated by ";"
+ * (emails also by ","). User custom fields take an email or a user ID.
+ */
+const validateImportRow = async (
+  cells: string[],
+  headers: string[],
+  mapping: TaskImportMapping,
+  context: ImportContext,
+  projectUuid: string
+): Promise<{ task: ImportedTask; errors: string[] }> => {
+  const raw = new Map<string, string>();
+  headers.forEach((header, i) => {
+    const target = mapping[header];
+    if (target) raw.set(target, (cells[i] ?? "").trim());
+  });
+
+  const errors: string[] = [];
+  const task: ImportedTask = {
+    title: raw.get("title") || "",
+    description: raw.get("description") || null,
+    assignee_ids: [],
+    label_ids: [],
+    custom_fields: [],
+  };
+
+  if (!task.title) {
+    errors.push("title is required");
+  }
+
+  const status = resolveTaskStatus(context.statuses, raw.get("status") || undefined);
+  if (!status) {
+    errors.push(`Unknown status "${raw.get("status")}". Allowed: ${context.statuses.map(s => s.name).join(", ")}`);
+  } else {
+    task.status = status.name;
+    task.status_category = status.category;
+  }
+
+  const priorityInput = raw.get("priority");
+  const priority = priorityInput
+    ? TASK_PRIORITIES.find(p => p.toLowerCase() === priorityInput.toLowerCase())
+    : "Medium";
+  if (!priority) {
+    errors.push(`Unknown priority "${priorityInput}". Allowed: ${TASK_PRIORITIES.join(", ")}`);
+  }
+  if (priority) {
+    task.priority = priority;
+  }
+
+  const { schedule, error: scheduleError } = resolveTaskSchedule({
+    start_date: raw.get("start_date") || undefined,
+    due_date: raw.get("due_date") || undefined,
+  });
+  if (scheduleError) {
+    errors.push(scheduleError);
+  }
+  Object.assign(task, schedule);
+
+  const estimateInput = raw.get("estimate");
+  if (estimateInput) {
+    const estimate = Number(estimateInput);
+    if (!isFinite(estimate) || estimate < 0) {
+      errors.push(`estimate must be a non-negative number, got "${estimateInput}"`);
+    }
+    task.estimate = estimate;
+  }
+
+  for (const email of splitList(raw.get("assignee_emails") || "", /[;,]/)) {
+    const assigneeId = context.userIdsByEmail.get(email.toLowerCase());
+    if (assigneeId) {
+      if (!task.assignee_ids.includes(assigneeId)) task.assignee_ids.push(assigneeId);
+    } else {
+      errors.push(`Unknown assignee email "${email}" (must be a project member)`);
+    }
+  }
+
+  for (const name of splitList(raw.get("labels") || "", /;/)) {
+    const labelId = context.labelIdsByName.get(name.toLowerCase());
+    if (labelId) {
+      if (!task.label_ids.includes(labelId)) task.label_ids.push(labelId);
+    } else {
+      errors.push(`Unknown label "${name}"`);
+    }
+  }
+
+  // Custom fields take the same values as in the API, with lists and emails spelled out
+  const customFieldInput: Record<string, unknown> = {};
+  for (const field of context.customFields) {
+    const value = raw.get(`${CUSTOM_FIELD_PREFIX}${field.field_id}`);
+    if (!value) continue;
+
+    if (field.field_type === "multi_select") {
+      customFieldInput[field.field_id] = splitList(value, /;/);
+    } else if (field.field_type === "user" && value.includes("@")) {
+      customFieldInput[field.field_id] = context.userIdsByEmail.get(value.toLowerCase()) ?? value;
+    } else {
+      customFieldInput[field.field_id] = value;
+    }
+  }
+
+  const { changes, error: customFieldError } = await resolveCustomFieldValues(
+    projectUuid,
+    customFieldInput,
+    true,
+    { fields: context.customFields, userIds: new Set(context.userIdsByEmail.values()) }
+  );
+  if (customFieldError) {
+    errors.push(customFieldError);
+  }
+  task.custom_fields = changes || [];
+
+  return { task, errors };
+};
+
+/**
+ * Validate every row of an import
+ * Row numbers count the header as row 1.
+ */
+const validateImportRows = async (
+  taskImport: Pick<TaskImport, "project_uuid" | "headers" | "rows" | "mapping">,
+  context: ImportContext
+): Promise<{ row: number; task: ImportedTask; errors: string[] }[]> => {
+  const results = [];
+
+  for (const [index, cells] of taskImport.rows.entries()) {
+    const { task, errors } = await validateImportRow(
+      cells,
+      taskImport.headers,
+      taskImport.mapping,
+      context,
+      taskImport.project_uuid
+    );
+    results.push({ row: index + 2, task, errors });
+  }
+
+  return results;
+};
+
+/**
+ * Dry run of an import: every row with the task it would create and its errors
+ */
+export const previewTaskImport = (
+  taskImport: Pick<TaskImport, "project_uuid" | "headers" | "rows" | "mapping">,
+  context: ImportContext
+): Promise<TaskImportRowPreview[]> => validateImportRows(taskImport, context);
+
+/**
+ * Create the valid rows of an import as tasks in one batch
+ * The import is marked committed first so it can't be committed twice; it is
+ * put back if the tasks can't be created.
+ */
+export const commitTaskImport = async (
+  taskImport: TaskImport,
+  context: ImportContext,
+  userId: number
+): Promise<{ taskIds: number[]; skipped: TaskImportRowPreview[] } | null> => {
+  const { data: claimed } = await supabase
+    .from("task_imports")
+    .update({ status: "committed", committed_at: new Date().toISOString() })
+    .eq("import_id", taskImport.import_id)
+    .eq("status", "previewed")
+    .select("import_id")
+    .maybeSingle();
+
+  if (!claimed) {
+    return null;
+  }
+
+  const preview = await validateImportRows(taskImport, context);
+  const validRows = preview.filter(r => r.errors.length === 0);
+  const skipped = preview.filter(r => r.errors.length > 0);
+
+  // New cards go to the bottom of their columns, in file order
+  const nextRankByStatus = new Map<string, number>();
+  for (const status of new Set(validRows.map(r => r.task.status!))) {
+    nextRankByStatus.set(status, await getEndOfColumnRank(taskImport.project_uuid, status));
+  }
+
+  let taskIds: number[] = [];
+
+  if (validRows.length > 0) {
+    const { data: created, error } = await supabase
+      .from("tasks")
+      .insert(validRows.map(({ task }) => {
+        const { assignee_ids, label_ids, custom_fields, ...columns } = task;
+        const boardRank = nextRankByStatus.get(task.status!)!;
+        nextRankByStatus.set(task.status!, boardRank + RANK_STEP);
+
+        return {
+          ...columns,
+          project_uuid: taskImport.project_uuid,
+          board_rank: boardRank,
+          created_by: userId,
+        };
+      }))
+      .select("task_id");
+
+    if (error || !created) {
+      await supabase
+        .from("task_imports")
+        .update({ status: "previewed", committed_at: null })
+        .eq("import_id", taskImport.import_id);
+      throw error || new Error("Failed to create tasks");
+    }
+
+    taskIds = created.map(t => t.task_id);
+
+    // Without their custom field values the tasks could miss required fields: undo the batch
+    const customFieldValues = validRows.flatMap((r, i) =>
+      r.task.custom_fields
+        .filter(c => c.value !== null)
+        .map(c => ({ task_id: taskIds[i], field_id: c.field_id, value: c.value }))
+    );
+
+    if (customFieldValues.length > 0) {
+      const { error: customFieldError } = await supabase
+        .from("task_custom_field_values")
+        .insert(customFieldValues);
+
+      if (customFieldError) {
+        await supabase.from("tasks").delete().in("task_id", taskIds);
+        await supabase
+          .from("task_imports")
+          .update({ status: "previewed", committed_at: null })
+          .eq("import_id", taskImport.import_id);
+        throw customFieldError;
+      }
+    }
+  }
+
+  const assignments = validRows.flatMap((r, i) =>
+    r.task.assignee_ids.map(id => ({ task_id: taskIds[i], user_id: id }))
+  );
+  const labels = validRows.flatMap((r, i) =>
+    r.task.label_ids.map(id => ({ task_id: taskIds[i], label_id: id }))
+  );
+  // The importer and assignees follow the new tasks
+  const watchers = validRows.flatMap((r, i) =>
+    Array.from(new Set([userId, ...r.task.assignee_ids])).map(id => ({ task_id: taskIds[i], user_id: id }))
+  );
+
+  const inserts = [];
+  if (assignments.length > 0) inserts.push(supabase.from("task_assignments").insert(assignments));
+  if (labels.length > 0) inserts.push(supabase.from("task_labels").insert(labels));
+  if (watchers.length > 0) inserts.push(supabase.from("task_watchers").insert(watchers));
+  if (taskIds.length > 0) {
+    inserts.push(supabase.from("task_activity").insert(validRows.map((r, i) => ({
+      task_id: taskIds[i],
+      actor_id: userId,
+      field: "created",
+      old_value: null,
+      new_value: { title: r.task.title, status: r.task.status },
+    }))));
+  }
+
+  const results = await Promise.all(inserts);
+  results.forEach(({ error: insertError }) => {
+    if (insertError) {
+      console.error("Failed to add details to imported tasks:", insertError);
+    }
+  });
+
+  await supabase
+    .from("task_imports")
+    .update({ created_task_ids: taskIds })
+    .eq("import_id", taskImport.import_id);
+
+  return { taskIds, skipped };
+};
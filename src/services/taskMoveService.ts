@@ -0,0 +1,324 @@
+import { supabase } from "../config/supabaseClient";
+import { getEndOfColumnRank } from "./boardRankService";
+import { getProjectTaskStatuses, matchTaskStatus } from "./taskStatusService";
+import type { Task } from "../types/database";
+
+// What a move changed besides the project itself
+export interface TaskMoveResult {
+  task: Task;
+  movedTaskIds: number[]; // the task followed by its subtasks
+  droppedAssignees: { task_id: number; user_id: number }[];
+  droppedLabels: { task_id: number; label_id: number; name: string }[];
+  droppedCustomFields: { task_id: number; field_id: number; name: string }[];
+}
+
+/**
+ * Whether a user may edit tasks in a project (owner, admin or editor)
+ */
+export const canEditProject = async (projectUuid: string, userId: number): Promise<boolean> => {
+  const { data: project } = await supabase
+    .from("projects")
+    .select("owner_id")
+    .eq("project_uuid", projectUuid)
+    .is("deleted_at", null)
+    .single();
+
+  if (!project) {
+    return false;
+  }
+
+  if (project.owner_id === userId) {
+    return true;
+  }
+
+  const { data: member } = await supabase
+    .from("project_members")
+    .select("role")
+    .eq("project_uuid", projectUuid)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return Boolean(member && ["owner", "admin", "editor"].includes(member.role));
+};
+
+/**
+ * Get the IDs of a task and its subtasks, parent first
+ */
+export const getTaskWithSubtaskIds = async (taskId: number): Promise<number[]> => {
+  const { data: subtasks } = await supabase
+    .from("tasks")
+    .select("task_id")
+    .eq("parent_task_id", taskId)
+    .is("deleted_at", null)
+    .order("board_rank", { ascending: true });
+
+  return [taskId, ...(subtasks || []).map(t => t.task_id)];
+};
+
+/**
+ * Owner and member IDs of a project
+ */
+const getProjectUserIds = async (projectUuid: string): Promise<Set<number>> => {
+  const [{ data: project }, { data: members }] = await Promise.all([
+    supabase.from("projects").select("owner_id").eq("project_uuid", projectUuid).single(),
+    supabase.from("project_members").select("user_id").eq("project_uuid", projectUuid),
+  ]);
+
+  const userIds = new Set<number>((members || []).map(m => m.user_id));
+  if (project) {
+    userIds.add(project.owner_id);
+  }
+  return userIds;
+};
+
+/**
+ * Assignees of the given tasks who are neither members nor the owner of a project
+ */
+export const getAssigneesOutsideProject = async (
+  taskIds: number[],
+  projectUuid: string
+): Promise<{ task_id: number; user_id: number }[]> => {
+  const [memberIds, { data: assignments }] = await Promise.all([
+    getProjectUserIds(projectUuid),
+    supabase.from("task_assignments").select("task_id, user_id").in("task_id", taskIds),
+  ]);
+
+  return (assignments || [])
+    .filter(a => !memberIds.has(a.user_id))
+    .map(a => ({ task_id: a.task_id, user_id: a.user_id }));
+};
+
+/**
+ * Re-home custom field values of moved tasks onto the target project's fields
+ * A value is kept when the target has a field of the same name and type that
+ * accepts it (select values must be among its options).
+ */
+const moveCustomFieldValues = async (
+  taskIds: number[],
+  targetProjectUuid: string
+): Promise<TaskMoveResult["droppedCustomFields"]> => {
+  const { data: values } = await supabase
+    .from("task_custom_field_values")
+    .select("task_id, field_id, value, project_custom_fields:field_id(name, field_type)")
+    .in("task_id", taskIds);
+
+  if (!values || values.length === 0) {
+    return [];
+  }
+
+  const { data: targetFields } = await supabase
+    .from("project_custom_fields")
+    .select("field_id, name, field_type, options")
+    .eq("project_uuid", targetProjectUuid);
+
+  const targetFieldByKey = new Map<string, any>();
+  targetFields?.forEach(f => targetFieldByKey.set(`${f.name.toLowerCase()}:${f.field_type}`, f));
+
+  const replacements: { task_id: number; field_id: number; value: unknown }[] = [];
+  const dropped: TaskMoveResult["droppedCustomFields"] = [];
+
+  for (const row of values) {
+    const source = (row as any).project_custom_fields;
+    const target = targetFieldByKey.get(`${(source?.name || "").toLowerCase()}:${source?.field_type}`);
+    const options: string[] = target?.options || [];
+    const fits = target && (
+      target.field_type === "single_select" ? options.includes(row.value)
+        : target.field_type === "multi_select" ? row.value.every((v: string) => options.includes(v))
+          : true
+    );
+
+    if (fits) {
+      replacements.push({ task_id: row.task_id, field_id: target.field_id, value: row.value });
+    } else {
+      dropped.push({ task_id: row.task_id, field_id: row.field_id, name: source?.name || "" });
+    }
+  }
+
+  await supabase.from("task_custom_field_values").delete().in("task_id", taskIds);
+
+  if (replacements.length > 0) {
+    const { error } = await supabase.from("task_custom_field_values").insert(replacements);
+    if (error) {
+      console.error("Failed to carry custom fields over to the target project:", error);
+    }
+  }
+
+  return dropped;
+};
+
+/**
+ * Move a task and its subtasks to another project
+ * - Statuses are matched against the target workflow (same name, else same category)
+ * - Labels are swapped for the target project's label of the same name, or dropped
+ * - Custom field values move to the target field of the same name and type when
+ *   the value fits it, or are dropped
+ * - Assignees and watchers who are not members of the target project are dropped
+ * - Subtasks in the trash stay in the old project, as top-level tasks once restored
+ * - Milestones and open sprints belong to the old project, so the tasks leave them
+ * - Comments, checklists, time entries and dependencies follow the task; attachments are re-homed
+ * A subtask moved on its own becomes a top-level task.
+ * Access checks are the caller's job.
+ */
+export const moveTaskToProject = async (
+  taskId: number,
+  targetProjectUuid: string
+): Promise<TaskMoveResult> => {
+  const { data: task, error } = await supabase
+    .from("tasks")
+    .select("task_id, project_uuid, status, status_category, parent_task_id")
+    .eq("task_id", taskId)
+    .single();
+
+  if (error || !task) {
+    throw error || new Error("Task not found");
+  }
+
+  const { data: subtasks } = await supabase
+    .from("tasks")
+    .select("task_id, project_uuid, status, status_category, parent_task_id")
+    .eq("parent_task_id", taskId)
+    .is("deleted_at", null)
+    .order("board_rank", { ascending: true });
+
+  const { error: detachError } = await supabase
+    .from("tasks")
+    .update({ parent_task_id: null })
+    .eq("parent_task_id", taskId)
+    .not("deleted_at", "is", null);
+
+  if (detachError) {
+    throw detachError;
+  }
+
+  const tasksToMove = [task, ...(subtasks || [])];
+  const movedTaskIds = tasksToMove.map(t => t.task_id);
+
+  const statuses = await getProjectTaskStatuses(targetProjectUuid);
+
+  // Update one task at a time so each lands at the bottom of its new column in order
+  let movedTask: Task | null = null;
+  for (const t of tasksToMove) {
+    const status = matchTaskStatus(statuses, t.status, t.status_category);
+    if (!status) {
+      throw new Error("Target project has no task statuses");
+    }
+
+    const boardRank = await getEndOfColumnRank(targetProjectUuid, status.name);
+
+    const { data: updated, error: updateError } = await supabase
+      .from("tasks")
+      .update({
+        project_uuid: targetProjectUuid,
+        status: status.name,
+        status_category: status.category,
+        board_rank: boardRank,
+        milestone_id: null,
+        ...(t.task_id === taskId ? { parent_task_id: null } : {}),
+      })
+      .eq("task_id", t.task_id)
+      .select()
+      .single();
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (t.task_id === taskId) {
+      movedTask = updated;
+    }
+  }
+
+  // Labels are per project: keep those the target project has by name
+  const { data: taskLabels } = await supabase
+    .from("task_labels")
+    .select("task_id, label_id, project_labels:label_id(name)")
+    .in("task_id", movedTaskIds);
+
+  const droppedLabels: TaskMoveResult["droppedLabels"] = [];
+
+  if (taskLabels && taskLabels.length > 0) {
+    const { data: targetLabels } = await supabase
+      .from("project_labels")
+      .select("label_id, name")
+      .eq("project_uuid", targetProjectUuid);
+
+    const targetLabelByName = new Map<string, number>();
+    targetLabels?.forEach(l => targetLabelByName.set(l.name.toLowerCase(), l.label_id));
+
+    const replacements: { task_id: number; label_id: number }[] = [];
+    for (const taskLabel of taskLabels) {
+      const name: string = (taskLabel as any).project_labels?.name || "";
+      const targetLabelId = targetLabelByName.get(name.toLowerCase());
+      if (targetLabelId) {
+        replacements.push({ task_id: taskLabel.task_id, label_id: targetLabelId });
+      } else {
+        droppedLabels.push({ task_id: taskLabel.task_id, label_id: taskLabel.label_id, name });
+      }
+    }
+
+    await supabase.from("task_labels").delete().in("task_id", movedTaskIds);
+
+    if (replacements.length > 0) {
+      const { error: labelError } = await supabase.from("task_labels").insert(replacements);
+      if (labelError) {
+        console.error("Failed to carry labels over to the target project:", labelError);
+      }
+    }
+  }
+
+  const droppedCustomFields = await moveCustomFieldValues(movedTaskIds, targetProjectUuid);
+
+  // Only members of the target project can stay assigned
+  const droppedAssignees = await getAssigneesOutsideProject(movedTaskIds, targetProjectUuid);
+
+  for (const dropped of droppedAssignees) {
+    await supabase
+      .from("task_assignments")
+      .delete()
+      .eq("task_id", dropped.task_id)
+      .eq("user_id", dropped.user_id);
+  }
+
+  // Watchers outside the target project would otherwise keep getting its notifications
+  const [targetUserIds, { data: watchers }] = await Promise.all([
+    getProjectUserIds(targetProjectUuid),
+    supabase.from("task_watchers").select("task_id, user_id").in("task_id", movedTaskIds),
+  ]);
+
+  for (const watcher of (watchers || []).filter(w => !targetUserIds.has(w.user_id))) {
+    await supabase
+      .from("task_watchers")
+      .delete()
+      .eq("task_id", watcher.task_id)
+      .eq("user_id", watcher.user_id);
+  }
+
+  const { data: openSprints } = await supabase
+    .from("project_sprints")
+    .select("sprint_id")
+    .eq("project_uuid", task.project_uuid)
+    .neq("status", "closed");
+
+  if (openSprints && openSprints.length > 0) {
+    const { error: sprintError } = await supabase
+      .from("sprint_tasks")
+      .delete()
+      .in("sprint_id", openSprints.map(s => s.sprint_id))
+      .in("task_id", movedTaskIds);
+
+    if (sprintError) {
+      console.error("Failed to remove moved tasks from sprints:", sprintError);
+    }
+  }
+
+  const { error: attachmentError } = await supabase
+    .from("attachments")
+    .update({ project_uuid: targetProjectUuid })
+    .in("task_id", movedTaskIds);
+
+  if (attachmentError) {
+    console.error("Failed to move task attachments:", attachmentError);
+  }
+
+  return { task: movedTask!, movedTaskIds, droppedAssignees, droppedLabels, droppedCustomFields };
+};
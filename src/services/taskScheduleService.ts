@@ -0,0 +1,316 @@
+import { supabase } from "../config/supabaseClient";
+import type { Task, TaskScheduleInput } from "../types/database";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LOCAL_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+const OFFSET_PATTERN = /([zZ]|[+-]\d{2}:?\d{2})$/;
+
+const SCHEDULE_FIELDS: (keyof TaskScheduleInput)[] = ["all_day", "start_date", "due_date", "start_at", "due_at", "time_zone"];
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+// Schedule columns of a task, as stored
+export type TaskSchedule = Pick<Task, "start_date" | "due_date" | "start_at" | "due_at" | "is_all_day" | "time_zone">;
+
+// Where a task sits on a calendar; dates are inclusive for all-day tasks
+export interface TaskSpan {
+  all_day: boolean;
+  start: string | null; // "YYYY-MM-DD" when all-day, otherwise an ISO timestamp
+  end: string | null;
+  time_zone: string;
+}
+
+/**
+ * Whether a string is an IANA time zone name the runtime knows ("Europe/Berlin")
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ */
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+
+  const get = (type: string) => parts.find(p => p.type === type)!.value;
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}:${get("second")}`,
+  };
+};
+
+/**
+ * Calendar date ("YYYY-MM-DD") of an instant in a time zone
+ */
+export const getLocalDate = (instant: Date | string, timeZone: string): string =>
+  getZonedParts(new Date(instant), timeZone).date;
+
+/**
+ * Offset of a time zone from UTC at the given instant, in milliseconds
+ */
+const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const { date, time } = getZonedParts(instant, timeZone);
+  return new Date(`${date}T${time}Z`).getTime() - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * Convert a wall-clock time in a time zone ("2026-03-08T09:00") to an ISO timestamp
+ * Times skipped by a DST change resolve to the hour before.
+ */
+export const zonedTimeToUtc = (localDateTime: string, timeZone: string): string => {
+  const asUtc = new Date(`${localDateTime}Z`).getTime();
+  const offset = getTimeZoneOffset(new Date(asUtc), timeZone);
+  let result = asUtc - offset;
+
+  // Near a DST change the offset at the result can differ from the first guess
+  const correctedOffset = getTimeZoneOffset(new Date(result), timeZone);
+  if (correctedOffset !== offset) {
+    result = asUtc - correctedOffset;
+  }
+
+  return new Date(result).toISOString();
+};
+
+/**
+ * Parse a timestamp from a request: ISO with an offset, or wall-clock time in the task's time zone
+ */
+const parseTimestamp = (value: string, timeZone: string): string | null => {
+  if (OFFSET_PATTERN.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  if (LOCAL_DATETIME_PATTERN.test(value) && !isNaN(new Date(`${value}Z`).getTime())) {
+    return zonedTimeToUtc(value, timeZone);
+  }
+
+  return null;
+};
+
+const isValidDate = (value: string) =>
+  DATE_PATTERN.test(value) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+/**
+ * Turn the schedule fields of a create/update request into task columns
+ * - start_at/due_at make a timed task; start_date/due_date (or all_day: true) an all-day one
+ * - Fields not in the request keep the existing task's values where they still apply
+ * - Timed tasks also store the local dates of their timestamps in start_date/due_date,
+ *   so date filters and sorting work the same for both kinds
+ * Returns the columns to write (empty when the request has no schedule fields) or an error message.
+ */
+export const resolveTaskSchedule = (
+  input: TaskScheduleInput,
+  existing?: Partial<TaskSchedule>
+): { schedule?: Partial<TaskSchedule>; error?: string } => {
+  const has = (field: keyof TaskScheduleInput) => input[field] !== undefined;
+
+  if (!SCHEDULE_FIELDS.some(has)) {
+    return { schedule: {} };
+  }
+
+  const timeZone = input.time_zone || existing?.time_zone || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return { error: "time_zone must be an IANA time zone name, e.g. Europe/Berlin" };
+  }
+
+  if (input.all_day !== undefined && typeof input.all_day !== "boolean") {
+    return { error: "all_day must be a boolean" };
+  }
+
+  const wasTimed = existing?.is_all_day === false;
+  const timed = input.all_day !== undefined
+    ? !input.all_day
+    : has("start_at") || has("due_at")
+      ? true
+      : has("start_date") || has("due_date")
+        ? false
+        : wasTimed;
+
+  if (timed) {
+    if (has("start_date") || has("due_date")) {
+      return { error: "Use start_at/due_at for timed tasks, or set all_day: true" };
+    }
+
+    const startRaw = has("start_at") ? input.start_at || null : wasTimed ? existing?.start_at ?? null : null;
+    const dueRaw = has("due_at") ? input.due_at || null : wasTimed ? existing?.due_at ?? null : null;
+
+    if (!startRaw && !dueRaw) {
+      return { error: "Timed tasks need start_at or due_at" };
+    }
+
+    // Unchanged instants keep their stored form so they don't show up as changes
+    const sameInstant = (parsed: string | null, stored?: string | null) =>
+      parsed && stored && Date.parse(parsed) === Date.parse(stored) ? stored : parsed;
+    const startAt = sameInstant(startRaw ? parseTimestamp(startRaw, timeZone) : null, existing?.start_at);
+    const dueAt = sameInstant(dueRaw ? parseTimestamp(dueRaw, timeZone) : null, existing?.due_at);
+
+    if ((startRaw && !startAt) || (dueRaw && !dueAt)) {
+      return { error: "start_at and due_at must be ISO timestamps, e.g. 2026-03-08T17:00:00-05:00 or 2026-03-08T17:00" };
+    }
+
+    if (startAt && dueAt && Date.parse(startAt) > Date.parse(dueAt)) {
+      return { error: "start_at must not be after due_at" };
+    }
+
+    return {
+      schedule: {
+        is_all_day: false,
+        time_zone: timeZone,
+        start_at: startAt,
+        due_at: dueAt,
+        start_date: startAt ? getLocalDate(startAt, timeZone) : null,
+        due_date: dueAt ? getLocalDate(dueAt, timeZone) : null,
+      },
+    };
+  }
+
+  if (has("start_at") || has("due_at")) {
+    return { error: "All-day tasks take start_date/due_date, not start_at/due_at" };
+  }
+
+  const startDate = has("start_date") ? input.start_date || null : existing?.start_date ?? null;
+  const dueDate = has("due_date") ? input.due_date || null : existing?.due_date ?? null;
+
+  if ((startDate && !isValidDate(startDate)) || (dueDate && !isValidDate(dueDate))) {
+    return { error: "start_date and due_date must be dates in YYYY-MM-DD format" };
+  }
+
+  if (startDate && dueDate && startDate > dueDate) {
+    return { error: "start_date must not be after due_date" };
+  }
+
+  return {
+    schedule: {
+      is_all_day: true,
+      time_zone: timeZone,
+      start_at: null,
+      due_at: null,
+      start_date: startDate,
+      due_date: dueDate,
+    },
+  };
+};
+
+/**
+ * Move a task's schedule so it is due on another date, keeping its length and
+ * (for timed tasks) its wall-clock times in the task's time zone
+ */
+export const shiftTaskSchedule = (task: TaskSchedule, nextDueDate: string): Partial<TaskSchedule> => {
+  const timeZone = task.time_zone || DEFAULT_TIME_ZONE;
+  const days = task.due_date
+    ? Math.round((Date.parse(`${nextDueDate}T00:00:00Z`) - Date.parse(`${task.due_date}T00:00:00Z`)) / DAY_MS)
+    : 0;
+
+  const shiftDate = (date: string | null) =>
+    date ? new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10) : null;
+
+  const shiftTimestamp = (timestamp: string | null) => {
+    if (!timestamp || days === 0) return timestamp;
+    const { date, time } = getZonedParts(new Date(timestamp), timeZone);
+    return zonedTimeToUtc(`${shiftDate(date)}T${time}`, timeZone);
+  };
+
+  if (task.is_all_day || !task.due_at) {
+    return {
+      is_all_day: true,
+      time_zone: timeZone,
+      start_at: null,
+      due_at: null,
+      start_date: shiftDate(task.start_date),
+      due_date: nextDueDate,
+    };
+  }
+
+  return {
+    is_all_day: false,
+    time_zone: timeZone,
+    start_at: shiftTimestamp(task.start_at),
+    due_at: shiftTimestamp(task.due_at),
+    start_date: shiftDate(task.start_date),
+    due_date: nextDueDate,
+  };
+};
+
+/**
+ * Whether an open task is past due for a viewer
+ * Timed tasks are overdue once their due time has passed; all-day tasks once
+ * their due date is over in the viewer's time zone.
+ */
+export const isTaskOverdue = (
+  task: Partial<TaskSchedule> & { status_category?: string },
+  viewerTimeZone: string,
+  now: Date = new Date()
+): boolean => {
+  if (task.status_category === "done") {
+    return false;
+  }
+
+  if (task.is_all_day === false && task.due_at) {
+    return new Date(task.due_at) < now;
+  }
+
+  return Boolean(task.due_date) && task.due_date! < getLocalDate(now, viewerTimeZone);
+};
+
+/**
+ * Calendar span of a task; a task with only a start or only a due value is one point long
+ */
+export const getTaskSpan = (task: Partial<TaskSchedule>): TaskSpan => {
+  const timeZone = task.time_zone || DEFAULT_TIME_ZONE;
+
+  if (task.is_all_day === false) {
+    return {
+      all_day: false,
+      start: task.start_at ?? task.due_at ?? null,
+      end: task.due_at ?? task.start_at ?? null,
+      time_zone: timeZone,
+    };
+  }
+
+  return {
+    all_day: true,
+    start: task.start_date ?? task.due_date ?? null,
+    end: task.due_date ?? task.start_date ?? null,
+    time_zone: timeZone,
+  };
+};
+
+/**
+ * Time zone to show dates in for a viewer: the requested one, else the user's
+ * profile setting, else UTC
+ */
+export const resolveViewerTimeZone = async (
+  requested: unknown,
+  userId: number
+): Promise<{ timeZone: string; error?: string }> => {
+  if (requested !== undefined && requested !== "") {
+    const timeZone = String(requested);
+    return isValidTimeZone(timeZone)
+      ? { timeZone }
+      : { timeZone: DEFAULT_TIME_ZONE, error: "timeZone must be an IANA time zone name, e.g. Europe/Berlin" };
+  }
+
+  const { data: user } = await supabase
+    .from("users")
+    .select("time_zone")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return { timeZone: user?.time_zone || DEFAULT_TIME_ZONE };
+};
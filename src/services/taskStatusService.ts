@@ -0,0 +1,118 @@
+import { supabase } from "../config/supabaseClient";
+import type { DefaultTaskStatus, ProjectStatus, TaskStatusCategory, TaskStatusDefinition } from "../types/database";
+
+// Workflow used by every project that hasn't defined its own statuses
+export const DEFAULT_TASK_STATUSES: TaskStatusDefinition[] = [
+  { name: "To do", category: "not_started", color: null },
+  { name: "In progress", category: "active", color: null },
+  { name: "In review", category: "active", color: null },
+  { name: "Done", category: "done", color: null },
+];
+
+// Old task statuses (shared with projects) mapped onto the default workflow.
+// Lets clients that still send the old values keep working.
+export const LEGACY_TASK_STATUS_MAP: Record<ProjectStatus, DefaultTaskStatus> = {
+  "On track": "To do",
+  "At risk": "In progress",
+  "Off track": "In progress",
+  Completed: "Done",
+};
+
+/**
+ * Get the status set of a project, ordered by position
+ * Falls back to DEFAULT_TASK_STATUSES when the project has no custom set
+ */
+export const getProjectTaskStatuses = async (projectUuid: string): Promise<TaskStatusDefinition[]> => {
+  const { data, error } = await supabase
+    .from("project_task_statuses")
+    .select("name, category, color")
+    .eq("project_uuid", projectUuid)
+    .order("position", { ascending: true });
+
+  if (error) {
+    throw error;
+  }
+
+  return data && data.length > 0 ? data : DEFAULT_TASK_STATUSES;
+};
+
+/**
+ * Get the status sets of several projects in one query
+ */
+export const getTaskStatusesForProjects = async (
+  projectUuids: string[]
+): Promise<Map<string, TaskStatusDefinition[]>> => {
+  const statusesByProject = new Map<string, TaskStatusDefinition[]>();
+
+  if (projectUuids.length > 0) {
+    const { data, error } = await supabase
+      .from("project_task_statuses")
+      .select("project_uuid, name, category, color")
+      .in("project_uuid", projectUuids)
+      .order("position", { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    for (const row of data || []) {
+      if (!statusesByProject.has(row.project_uuid)) {
+        statusesByProject.set(row.project_uuid, []);
+      }
+      statusesByProject.get(row.project_uuid)!.push({
+        name: row.name,
+        category: row.category,
+        color: row.color,
+      });
+    }
+  }
+
+  for (const uuid of projectUuids) {
+    if (!statusesByProject.has(uuid)) {
+      statusesByProject.set(uuid, DEFAULT_TASK_STATUSES);
+    }
+  }
+
+  return statusesByProject;
+};
+
+/**
+ * Resolve a requested status name against a project's status set
+ * - No input: the first "not_started" status (the initial column)
+ * - Names match case-insensitively; legacy values are translated first
+ * Returns null when the name is not part of the set.
+ */
+export const resolveTaskStatus = (
+  statuses: TaskStatusDefinition[],
+  input?: string | null
+): TaskStatusDefinition | null => {
+  if (input === undefined || input === null || input === "") {
+    return statuses.find((s) => s.category === "not_started") || statuses[0] || null;
+  }
+
+  const wanted = String(input).trim().toLowerCase();
+  const direct = statuses.find((s) => s.name.toLowerCase() === wanted);
+  if (direct) {
+    return direct;
+  }
+
+  const legacy = LEGACY_TASK_STATUS_MAP[input as ProjectStatus];
+  if (legacy) {
+    return statuses.find((s) => s.name === legacy) || null;
+  }
+
+  return null;
+};
+
+/**
+ * Pick the status a task gets in another project's status set
+ * Same name first, then the first status of the same category, then the initial status
+ */
+export const matchTaskStatus = (
+  statuses: TaskStatusDefinition[],
+  name: string,
+  category: TaskStatusCategory
+): TaskStatusDefinition | null =>
+  statuses.find((s) => s.name.toLowerCase() === name.toLowerCase()) ||
+  statuses.find((s) => s.category === category) ||
+  resolveTaskStatus(statuses);
@@ -0,0 +1,23 @@
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Replace {{name}} placeholders with their values
+ * Unknown placeholders are left as they are so they stay visible in the task.
+ */
+export const fillPlaceholders = (text: string, values: Record<string, string>): string =>
+  text.replace(PLACEHOLDER, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match
+  );
+
+/**
+ * Names of the placeholders used in a set of texts
+ */
+export const listPlaceholders = (...texts: (string | null | undefined)[]): string[] => {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of (text || "").matchAll(PLACEHOLDER)) {
+      names.add(match[1]);
+    }
+  }
+  return Array.from(names);
+};
@@ -0,0 +1,151 @@
+import { env } from "../config/env";
+import { supabase } from "../config/supabaseClient";
+import { getStorage } from "./storageService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When an item deleted at the given time is purged for good
+ */
+export const getPurgeAt = (deletedAt: string): string =>
+  new Date(new Date(deletedAt).getTime() + env.TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+
+/**
+ * Move projects to the trash together with their tasks
+ * Tasks that were already in the trash keep their own deleted_at, so
+ * restoring the project doesn't bring them back.
+ */
+export const trashProjects = async (projectUuids: string[], userId: number): Promise<string> => {
+  const stamp = { deleted_at: new Date().toISOString(), deleted_by: userId };
+
+  const { error } = await supabase
+    .from("projects")
+    .update(stamp)
+    .in("project_uuid", projectUuids)
+    .is("deleted_at", null);
+
+  if (error) throw error;
+
+  const { error: taskError } = await supabase
+    .from("tasks")
+    .update(stamp)
+    .in("project_uuid", projectUuids)
+    .is("deleted_at", null);
+
+  if (taskError) throw taskError;
+  return stamp.deleted_at;
+};
+
+/**
+ * Move a task and its subtasks to the trash
+ */
+export const trashTask = async (
+  taskId: number,
+  userId: number
+): Promise<{ taskIds: number[]; deletedAt: string }> => {
+  const deletedAt = new Date().toISOString();
+
+  const { data, error } = await supabase
+    .from("tasks")
+    .update({ deleted_at: deletedAt, deleted_by: userId })
+    .or(`task_id.eq.${taskId},parent_task_id.eq.${taskId}`)
+    .is("deleted_at", null)
+    .select("task_id");
+
+  if (error) throw error;
+  return { taskIds: (data || []).map(t => t.task_id), deletedAt };
+};
+
+/**
+ * Bring a project back with the tasks that were trashed along with it
+ */
+export const restoreProject = async (projectUuid: string, deletedAt: string): Promise<void> => {
+  const { error: taskError } = await supabase
+    .from("tasks")
+    .update({ deleted_at: null, deleted_by: null })
+    .eq("project_uuid", projectUuid)
+    .eq("deleted_at", deletedAt);
+
+  if (taskError) throw taskError;
+
+  const { error } = await supabase
+    .from("projects")
+    .update({ deleted_at: null, deleted_by: null })
+    .eq("project_uuid", projectUuid);
+
+  if (error) throw error;
+};
+
+/**
+ * Bring a task back with the subtasks that were trashed along with it
+ */
+export const restoreTask = async (taskId: number, deletedAt: string): Promise<number[]> => {
+  const { data, error } = await supabase
+    .from("tasks")
+    .update({ deleted_at: null, deleted_by: null })
+    .or(`task_id.eq.${taskId},parent_task_id.eq.${taskId}`)
+    .eq("deleted_at", deletedAt)
+    .select("task_id");
+
+  if (error) throw error;
+  return (data || []).map(t => t.task_id);
+};
+
+/**
+ * Remove the stored files of attachments that are about to be deleted by CASCADE
+ */
+const removeAttachmentFiles = async (column: "project_uuid" | "task_id", values: (string | number)[]) => {
+  const { data: attachments } = await supabase
+    .from("attachments")
+    .select("storage_driver, storage_key")
+    .in(column, values);
+
+  for (const attachment of attachments || []) {
+    await getStorage(attachment.storage_driver).remove(attachment.storage_key).catch((removeError) => {
+      console.error("Failed to remove attachment from storage:", removeError);
+    });
+  }
+};
+
+/**
+ * Permanently delete projects and tasks that have been in the trash longer
+ * than the retention window. Comments, assignments, attachments etc. go with
+ * them via CASCADE.
+ */
+export const purgeExpiredTrash = async (): Promise<{ projects: number; tasks: number }> => {
+  const cutoff = new Date(Date.now() - env.TRASH_RETENTION_DAYS * DAY_MS).toISOString();
+
+  const { data: projects, error: projectError } = await supabase
+    .from("projects")
+    .select("project_uuid")
+    .lt("deleted_at", cutoff);
+
+  if (projectError) throw projectError;
+
+  const projectUuids = (projects || []).map(p => p.project_uuid);
+
+  if (projectUuids.length > 0) {
+    await removeAttachmentFiles("project_uuid", projectUuids);
+
+    const { error } = await supabase.from("projects").delete().in("project_uuid", projectUuids);
+    if (error) throw error;
+  }
+
+  const { data: tasks, error: taskError } = await supabase
+    .from("tasks")
+    .select("task_id")
+    .lt("deleted_at", cutoff);
+
+  if (taskError) throw taskError;
+
+  const taskIds = (tasks || []).map(t => t.task_id);
+
+  if (taskIds.length > 0) {
+    await removeAttachmentFiles("task_id", taskIds);
+
+    const { error } = await supabase.from("tasks").delete().in("task_id", taskIds);
+    if (error) throw error;
+  }
+
+  return { projects: projectUuids.length, tasks: taskIds.length };
+};
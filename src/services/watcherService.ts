@@ -0,0 +1,57 @@
+import { supabase } from "../config/supabaseClient";
+
+/**
+ * Add users as watchers of a task
+ * Users already watching are left as they are; failures are only logged.
+ */
+export const addTaskWatchers = async (taskId: number, userIds: (number | null | undefined)[]): Promise<void> => {
+  const ids = Array.from(new Set(userIds.filter((id): id is number => typeof id === "number")));
+
+  if (ids.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("task_watchers")
+    .upsert(ids.map(userId => ({ task_id: taskId, user_id: userId })), {
+      onConflict: "task_id,user_id",
+      ignoreDuplicates: true,
+    });
+
+  if (error) {
+    console.error("Failed to add task watchers:", error);
+  }
+};
+
+/**
+ * Stop users from watching any task of a project (e.g. when they leave it)
+ */
+export const removeProjectWatchers = async (projectUuid: string, userIds: number[]): Promise<void> => {
+  if (userIds.length === 0) {
+    return;
+  }
+
+  const { data: tasks, error: taskError } = await supabase
+    .from("tasks")
+    .select("task_id")
+    .eq("project_uuid", projectUuid);
+
+  if (taskError) {
+    console.error("Failed to load project tasks:", taskError);
+    return;
+  }
+
+  if (!tasks || tasks.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from("task_watchers")
+    .delete()
+    .in("task_id", tasks.map(t => t.task_id))
+    .in("user_id", userIds);
+
+  if (error) {
+    console.error("Failed to remove task watchers:", error);
+  }
+};
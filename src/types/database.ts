@@ -3,6 +3,54 @@
 export type ProjectStatus = 'On track' | 'Off track' | 'At risk' | 'Completed';
 export type ProjectPriority = 'Low' | 'Medium' | 'High' | 'Critical';
 export type MemberRole = 'owner' | 'admin' | 'editor' | 'viewer';
+export type EstimationUnit = 'hours' | 'points';
+export type TaskStatusCategory = 'not_started' | 'active' | 'done';
+export type DefaultTaskStatus = 'To do' | 'In progress' | 'In review' | 'Done';
+// Task statuses are per-project; DefaultTaskStatus applies when a project has no custom set
+export type TaskStatus = DefaultTaskStatus | (string & {});
+export type TimeEntrySource = 'timer' | 'manual';
+export type StorageDriver = 'local' | 'supabase' | 's3';
+export type BulkTaskAction =
+  | 'set_status'
+  | 'set_priority'
+  | 'set_due_date'
+  | 'add_assignee'
+  | 'remove_assignee'
+  | 'delete'
+  | 'move';
+export type NotificationType =
+  | 'task_status_changed'
+  | 'task_due_date_changed'
+  | 'task_commented'
+  | 'mentioned';
+export type TaskActivityField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'start_date'
+  | 'due_date'
+  | 'start_at'
+  | 'due_at'
+  | 'milestone_id'
+  | 'epic_id'
+  | 'assignees'
+  | 'created'; // the task itself was created
+export type SearchResultType = 'task' | 'project' | 'comment' | 'member';
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'after_completion';
+export type MilestoneStatus = 'completed' | 'on_track' | 'at_risk' | 'overdue';
+export type SprintStatus = 'planned' | 'active' | 'closed';
+export type EpicStatus = 'planned' | 'in_progress' | 'done' | 'cancelled';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'single_select' | 'multi_select' | 'user' | 'url';
+export type TaskImportStatus = 'previewed' | 'committed';
+
+// Repeat rule stored on a task (tasks.recurrence)
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval?: number; // every N days/weeks/months; days after completion for 'after_completion'
+  weekdays?: number[]; // 'weekly' only, 0 = Sunday
+  day_of_month?: number; // 'monthly' only, clamped to the month's last day
+}
 
 // Users table
 export interface User {
@@ -11,6 +59,7 @@ export interface User {
   name: string;
   email: string;
   avatar_url: string | null;
+  time_zone: string | null; // IANA name; dates are shown in UTC when unset
   created_at: string;
   updated_at: string;
 }
@@ -25,9 +74,12 @@ export interface Project {
   priority: ProjectPriority;
   start_date: string; // DATE format
   end_date: string; // DATE format
+  estimation_unit: EstimationUnit;
   owner_id: number;
   created_at: string;
   updated_at: string;
+  deleted_at: string | null; // set while the project is in the trash
+  deleted_by: number | null;
 }
 
 // Project members table
@@ -46,12 +98,56 @@ export interface Task {
   project_uuid: string;
   title: string;
   description: string | null;
-  status: ProjectStatus;
+  status: TaskStatus;
+  status_category: TaskStatusCategory;
   priority: ProjectPriority;
-  due_date: string | null; // DATE format
+  start_date: string | null; // DATE format; for timed tasks the local date of start_at
+  due_date: string | null; // DATE format; for timed tasks the local date of due_at
+  start_at: string | null; // timed tasks only
+  due_at: string | null; // timed tasks only
+  is_all_day: boolean;
+  time_zone: string; // IANA name the task's times are entered in
+  estimate: number | null; // in the project's estimation_unit
+  parent_task_id: number | null;
+  board_rank: number;
+  recurrence: TaskRecurrence | null;
+  recurrence_source_id: number | null; // task this occurrence was generated from
+  next_occurrence_id: number | null;
   created_by: number | null;
   created_at: string;
   updated_at: string;
+  milestone_id: number | null;
+  epic_id: number | null;
+  deleted_at: string | null; // set while the task is in the trash
+  deleted_by: number | null;
+}
+
+// Project task statuses table (custom workflow per project)
+export interface ProjectTaskStatus {
+  status_id: number;
+  project_uuid: string;
+  name: string;
+  category: TaskStatusCategory;
+  color: string | null;
+  position: number;
+  created_at: string;
+}
+
+// Project labels table
+export interface ProjectLabel {
+  label_id: number;
+  project_uuid: string;
+  name: string;
+  color: string;
+  created_by: number | null;
+  created_at: string;
+}
+
+// Task labels table (many-to-many between tasks and project labels)
+export interface TaskLabel {
+  task_id: number;
+  label_id: number;
+  added_at: string;
 }
 
 // Task assignments table
@@ -61,6 +157,270 @@ export interface TaskAssignment {
   assigned_at: string;
 }
 
+// Task dependencies table (task_id is blocked by blocked_by_task_id)
+export interface TaskDependency {
+  task_id: number;
+  blocked_by_task_id: number;
+  created_by: number | null;
+  created_at: string;
+}
+
+// Task checklist items table
+export interface TaskChecklistItem {
+  item_id: number;
+  task_id: number;
+  content: string;
+  is_completed: boolean;
+  position: number;
+  completed_by: number | null;
+  completed_at: string | null;
+  created_at: string;
+}
+
+// Time entries table
+export interface TimeEntry {
+  entry_id: number;
+  task_id: number;
+  user_id: number;
+  source: TimeEntrySource;
+  started_at: string;
+  ended_at: string | null; // null while the timer is running
+  duration_seconds: number | null;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Attachments table (task_id is null for project-level files)
+export interface Attachment {
+  attachment_id: number;
+  project_uuid: string;
+  task_id: number | null;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_driver: StorageDriver;
+  storage_key: string;
+  uploaded_by: number | null;
+  created_at: string;
+}
+
+// Task watchers table (users following a task)
+export interface TaskWatcher {
+  task_id: number;
+  user_id: number;
+  created_at: string;
+}
+
+// Task activity table (one row per changed field)
+export interface TaskActivity {
+  activity_id: number;
+  task_id: number;
+  actor_id: number | null;
+  field: TaskActivityField;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+}
+
+// Task mentions table (comment_id is null for mentions in the description)
+export interface TaskMention {
+  mention_id: number;
+  task_id: number;
+  comment_id: number | null;
+  mentioned_user_id: number;
+  mentioned_by: number | null;
+  created_at: string;
+}
+
+// Notifications table (in-app inbox)
+export interface Notification {
+  notification_id: number;
+  user_id: number; // recipient
+  actor_id: number | null;
+  type: NotificationType;
+  task_id: number | null;
+  project_uuid: string | null;
+  data: Record<string, unknown>;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Task comments table
+export interface TaskComment {
+  comment_id: number;
+  task_id: number;
+  parent_comment_id: number | null;
+  author_id: number | null;
+  body: string;
+  edited_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Task templates table
+export interface TaskTemplate {
+  template_id: number;
+  project_uuid: string;
+  name: string;
+  title: string;
+  description: string | null;
+  priority: ProjectPriority | null;
+  checklist: string[];
+  default_assignee_ids: number[];
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Project milestones table
+export interface Milestone {
+  milestone_id: number;
+  project_uuid: string;
+  name: string;
+  description: string | null;
+  target_date: string; // DATE format
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Milestone figures rolled up from its tasks
+export interface MilestoneProgress {
+  total_tasks: number;
+  completed_tasks: number;
+  completion: number; // percent, 0-100
+  status: MilestoneStatus;
+  at_risk_reasons: string[];
+}
+
+// Committed vs completed work of a sprint; estimates are in the project's unit
+export interface SprintProgress {
+  total_tasks: number;
+  committed_tasks: number; // in the sprint when it started
+  added_tasks: number; // added while it was running
+  completed_tasks: number;
+  completion: number; // percent of total_tasks, 0-100
+  total_estimate: number;
+  completed_estimate: number;
+}
+
+// Written when a sprint is closed
+export interface SprintSummary extends SprintProgress {
+  carried_over_task_ids: number[];
+  carried_over_to: number | null; // sprint the unfinished tasks moved into
+}
+
+// Project sprints table
+export interface Sprint {
+  sprint_id: number;
+  project_uuid: string;
+  name: string;
+  goal: string | null;
+  start_date: string; // DATE format
+  end_date: string; // DATE format
+  status: SprintStatus;
+  started_at: string | null;
+  closed_at: string | null;
+  summary: SprintSummary | null;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Sprint tasks junction table
+export interface SprintTask {
+  sprint_id: number;
+  task_id: number;
+  added_at: string;
+  added_after_start: boolean;
+  carried_over_from: number | null;
+}
+
+// Epics table (initiatives spanning projects)
+export interface Epic {
+  epic_id: number;
+  title: string;
+  description: string | null;
+  owner_id: number;
+  status: EpicStatus;
+  target_date: string | null; // DATE format
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Epic figures rolled up from its tasks across all projects
+export interface EpicProgress {
+  total_tasks: number;
+  completed_tasks: number;
+  overdue_tasks: number;
+  completion: number; // percent, 0-100
+  project_count: number;
+}
+
+// Project custom fields table
+export interface ProjectCustomField {
+  field_id: number;
+  project_uuid: string;
+  name: string;
+  field_type: CustomFieldType;
+  options: string[]; // choices of single_select/multi_select fields
+  is_required: boolean;
+  position: number;
+  created_by: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Task custom field values table
+export interface TaskCustomFieldValue {
+  task_id: number;
+  field_id: number;
+  value: string | number | string[];
+  value_text: string | null;
+  updated_at: string;
+}
+
+// Custom field values of a task keyed by field_id; null clears a value
+export type CustomFieldValues = Record<string, unknown>;
+
+// Task imports table (staged CSV files)
+export interface TaskImport {
+  import_id: number;
+  project_uuid: string;
+  file_name: string | null;
+  headers: string[];
+  rows: string[][];
+  mapping: TaskImportMapping;
+  status: TaskImportStatus;
+  created_task_ids: number[];
+  created_by: number | null;
+  created_at: string;
+  committed_at: string | null;
+}
+
+// CSV column name -> task field ("title", "due_date", "custom_field:12", ...); null ignores the column
+export type TaskImportMapping = Record<string, string | null>;
+
+// Dry-run result for one CSV row
+export interface TaskImportRowPreview {
+  row: number; // data row number, counting the header as row 1
+  task: Record<string, unknown>;
+  errors: string[];
+}
+
+// Row returned by the search_workspace() database function
+export interface SearchResult {
+  result_type: SearchResultType;
+  result_id: string; // task_id, project_uuid, comment_id or user_id
+  project_uuid: string | null;
+  task_id: number | null;
+  title: string; // HTML-escaped, highlighted with <mark></mark>
+  snippet: string | null; // HTML-escaped excerpt with highlights; the email for members
+  rank: number;
+}
+
 // Request/Response types
 export interface CreateUserRequest {
   clerk_user_id: string;
@@ -73,6 +433,7 @@ export interface UpdateUserRequest {
   name?: string;
   email?: string;
   avatar_url?: string;
+  time_zone?: string | null;
 }
 
 export interface CreateProjectRequest {
@@ -82,6 +443,7 @@ export interface CreateProjectRequest {
   priority?: ProjectPriority;
   start_date: string;
   end_date: string;
+  estimation_unit?: EstimationUnit;
   memberEmails?: string[];
 }
 
@@ -92,26 +454,238 @@ export interface UpdateProjectRequest {
   priority?: ProjectPriority;
   start_date?: string;
   end_date?: string;
+  estimation_unit?: EstimationUnit;
   memberEmails?: string[];
 }
 
-export interface CreateTaskRequest {
+// Schedule fields of task requests: dates for all-day tasks, timestamps for timed ones
+export interface TaskScheduleInput {
+  all_day?: boolean;
+  start_date?: string | null; // YYYY-MM-DD
+  due_date?: string | null;
+  start_at?: string | null; // ISO timestamp, or wall-clock "YYYY-MM-DDTHH:mm" in time_zone
+  due_at?: string | null;
+  time_zone?: string; // IANA name, defaults to UTC
+}
+
+export interface CreateTaskRequest extends TaskScheduleInput {
   project_uuid: string;
   title: string;
   description?: string;
-  status?: ProjectStatus;
+  status?: TaskStatus;
   priority?: ProjectPriority;
-  due_date?: string;
+  estimate?: number | null;
+  parent_task_id?: number;
+  recurrence?: TaskRecurrence | null;
+  milestone_id?: number | null;
   assigned_user_ids?: number[];
+  label_ids?: number[];
+  custom_fields?: CustomFieldValues;
 }
 
-export interface UpdateTaskRequest {
+export interface UpdateTaskRequest extends TaskScheduleInput {
   title?: string;
   description?: string;
-  status?: ProjectStatus;
+  status?: TaskStatus;
   priority?: ProjectPriority;
-  due_date?: string;
+  estimate?: number | null;
+  recurrence?: TaskRecurrence | null;
+  milestone_id?: number | null;
   assigned_user_ids?: number[];
+  label_ids?: number[];
+  custom_fields?: CustomFieldValues;
+}
+
+export interface MoveTaskRequest {
+  project_uuid: string;
+  drop_assignees?: boolean; // default true; false refuses the move if assignees would be dropped
+}
+
+// One action applied to many tasks; only the field the action needs is read
+export interface BulkTaskRequest {
+  task_ids: number[];
+  action: BulkTaskAction;
+  status?: TaskStatus; // set_status
+  priority?: ProjectPriority; // set_priority
+  due_date?: string | null; // set_due_date
+  user_id?: number; // add_assignee, remove_assignee
+  project_uuid?: string; // move
+}
+
+export interface TaskStatusDefinition {
+  name: string;
+  category: TaskStatusCategory;
+  color?: string | null;
+}
+
+export interface UpdateProjectTaskStatusesRequest {
+  statuses: TaskStatusDefinition[];
+  // Maps statuses being removed onto statuses in the new set
+  remap?: Record<string, string>;
+}
+
+export interface CreateLabelRequest {
+  name: string;
+  color?: string;
+}
+
+export interface UpdateLabelRequest {
+  name?: string;
+  color?: string;
+}
+
+export interface CreateMilestoneRequest {
+  name: string;
+  target_date: string;
+  description?: string;
+}
+
+export interface UpdateMilestoneRequest {
+  name?: string;
+  target_date?: string;
+  description?: string | null;
+}
+
+export interface CreateSprintRequest {
+  name: string;
+  start_date: string;
+  end_date: string;
+  goal?: string;
+  task_ids?: number[];
+}
+
+export interface UpdateSprintRequest {
+  name?: string;
+  start_date?: string;
+  end_date?: string;
+  goal?: string | null;
+}
+
+export interface SprintTasksRequest {
+  task_ids: number[];
+}
+
+export interface CloseSprintRequest {
+  // Planned sprint to carry unfinished tasks into; defaults to the next planned
+  // sprint of the project, null leaves them out of any sprint
+  carry_over_to?: number | null;
+}
+
+export interface CreateEpicRequest {
+  title: string;
+  description?: string;
+  owner_id?: number; // defaults to the creator
+  status?: EpicStatus;
+  target_date?: string | null;
+}
+
+export interface UpdateEpicRequest {
+  title?: string;
+  description?: string | null;
+  owner_id?: number;
+  status?: EpicStatus;
+  target_date?: string | null;
+}
+
+export interface EpicTasksRequest {
+  task_ids: number[];
+}
+
+export interface CreateCustomFieldRequest {
+  name: string;
+  field_type: CustomFieldType;
+  options?: string[];
+  is_required?: boolean;
+}
+
+export interface UpdateCustomFieldRequest {
+  name?: string;
+  options?: string[];
+  is_required?: boolean;
+  position?: number;
+}
+
+export interface CreateTaskImportRequest {
+  csv?: string; // CSV text, when not uploaded as a file
+  file_name?: string;
+  mapping?: TaskImportMapping | string; // a JSON string in multipart uploads
+}
+
+export interface UpdateTaskImportRequest {
+  mapping: TaskImportMapping;
+}
+
+export interface MoveBoardCardRequest {
+  task_id: number;
+  status: TaskStatus;
+  position: number; // 0-based index in the target column
+}
+
+export interface CreateChecklistItemRequest {
+  content: string;
+  position?: number;
+}
+
+export interface UpdateChecklistItemRequest {
+  content?: string;
+  is_completed?: boolean;
+  position?: number;
+}
+
+export interface CreateTaskDependencyRequest {
+  blocked_by_task_id?: number;
+  blocks_task_id?: number;
+}
+
+export interface StartTimerRequest {
+  note?: string;
+}
+
+export interface CreateTimeEntryRequest {
+  duration_minutes: number;
+  started_at?: string; // defaults to now minus the duration
+  note?: string;
+}
+
+export interface UpdateTimeEntryRequest {
+  duration_minutes?: number;
+  started_at?: string;
+  note?: string | null;
+}
+
+export interface CreateTaskCommentRequest {
+  body: string;
+  parent_comment_id?: number;
+}
+
+export interface UpdateTaskCommentRequest {
+  body: string;
+}
+
+export interface CreateTaskTemplateRequest {
+  name: string;
+  task_id?: number; // copy title, description, priority, checklist and assignees from this task
+  title?: string;
+  description?: string;
+  priority?: ProjectPriority;
+  checklist?: string[];
+  default_assignee_ids?: number[];
+}
+
+export interface UpdateTaskTemplateRequest {
+  name?: string;
+  title?: string;
+  description?: string | null;
+  priority?: ProjectPriority | null;
+  checklist?: string[];
+  default_assignee_ids?: number[];
+}
+
+export interface CreateTaskFromTemplateRequest extends TaskScheduleInput {
+  variables?: Record<string, string>; // values for custom {{placeholders}}
+  status?: TaskStatus;
+  assigned_user_ids?: number[]; // replaces the template's default assignees
+  custom_fields?: CustomFieldValues;
 }
 
 export interface AddProjectMemberRequest {